@@ -5,6 +5,9 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
 import Profile from "./pages/Profile";
+import History from "./pages/History";
+import Watchlist from "./pages/Watchlist";
+import Inbox from "./pages/Inbox";
 import ResetPassword from "./pages/ResetPassword";
 import Notifications from "./pages/Notifications";
 import NotFound from "./pages/NotFound";
@@ -20,6 +23,9 @@ const App = () => (
         <Routes>
           <Route path="/" element={<Index />} />
           <Route path="/profile" element={<Profile />} />
+          <Route path="/history" element={<History />} />
+          <Route path="/watchlist" element={<Watchlist />} />
+          <Route path="/inbox" element={<Inbox />} />
           <Route path="/reset-password" element={<ResetPassword />} />
           <Route path="/notifications" element={<Notifications />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
@@ -10,6 +10,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { DistrictCombobox } from "@/components/Location/DistrictCombobox";
 import { Droplets, Heart, Shield, ArrowLeft } from "lucide-react";
 import { signUpSchema, signInSchema, forgotPasswordSchema, type SignUpData, type SignInData, type ForgotPasswordData } from "@/lib/validations";
 
@@ -41,8 +42,7 @@ export const AuthForm = () => {
           data: {
             full_name: data.full_name,
             phone: data.phone,
-            district: data.district,
-            state: data.state,
+            district_id: data.district_id,
             blood_group: data.blood_group,
           }
         }
@@ -265,34 +265,22 @@ export const AuthForm = () => {
                       />
                     </div>
 
-                    <div className="grid grid-cols-2 gap-3">
-                      <FormField
-                        control={signUpForm.control}
-                        name="district"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>District</FormLabel>
-                            <FormControl>
-                              <Input placeholder="District" {...field} />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                      <FormField
-                        control={signUpForm.control}
-                        name="state"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>State</FormLabel>
-                            <FormControl>
-                              <Input placeholder="State" {...field} />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                    </div>
+                    <FormField
+                      control={signUpForm.control}
+                      name="district_id"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>District</FormLabel>
+                          <FormControl>
+                            <DistrictCombobox
+                              value={field.value}
+                              onChange={(district) => field.onChange(district.id)}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
 
                     <FormField
                       control={signUpForm.control}
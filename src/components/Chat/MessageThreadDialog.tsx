@@ -0,0 +1,209 @@
+import { useState, useEffect, useRef } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import type { Database } from "@/integrations/supabase/types";
+import { MessageCircle, Send } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+type Message = Database["public"]["Tables"]["messages"]["Row"];
+
+const MAX_MESSAGE_LENGTH = 2000;
+
+interface MessageThreadDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  requestId: string;
+  donorId: string;
+  // Which side of the thread the signed-in user is on
+  viewerRole: 'donor' | 'requester';
+  otherPartyName: string;
+}
+
+// The private thread between a requester and one donor who offered to help
+export const MessageThreadDialog = ({
+  isOpen,
+  onClose,
+  requestId,
+  donorId,
+  viewerRole,
+  otherPartyName,
+}: MessageThreadDialogProps) => {
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [draft, setDraft] = useState("");
+  const [isSending, setIsSending] = useState(false);
+  const bottomRef = useRef<HTMLDivElement>(null);
+  const { toast } = useToast();
+
+  const isMine = (message: Message) =>
+    viewerRole === 'donor' ? message.sender_id === donorId : message.sender_id !== donorId;
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const fetchMessages = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('messages')
+          .select('*')
+          .eq('request_id', requestId)
+          .eq('donor_id', donorId)
+          .order('created_at', { ascending: true });
+
+        if (error) throw error;
+        setMessages(data || []);
+      } catch (error) {
+        console.error('Error fetching messages:', error);
+      }
+    };
+
+    fetchMessages();
+
+    // Realtime filters take a single column, so narrow to the request and check the donor here
+    const channel = supabase
+      .channel(`messages-${requestId}-${donorId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'messages',
+          filter: `request_id=eq.${requestId}`,
+        },
+        (payload) => {
+          const message = payload.new as Message;
+          if (message.donor_id !== donorId) return;
+          setMessages(prev => prev.some(existing => existing.id === message.id) ? prev : [...prev, message]);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [isOpen, requestId, donorId]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: 'end' });
+  }, [messages]);
+
+  const handleSend = async () => {
+    const body = draft.trim();
+    if (!body) return;
+
+    setIsSending(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      const { data: message, error } = await supabase
+        .from('messages')
+        .insert({
+          request_id: requestId,
+          donor_id: donorId,
+          sender_id: user.id,
+          body,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      setMessages(prev => prev.some(existing => existing.id === message.id) ? prev : [...prev, message]);
+      setDraft("");
+
+      try {
+        const { error: notificationError } = await supabase.functions.invoke('send-blood-request-notifications', {
+          body: { messageId: message.id, type: 'new_message' }
+        });
+
+        if (notificationError) {
+          console.error('Failed to send message notification:', notificationError);
+        }
+      } catch (notificationError) {
+        console.error('Error sending message notification:', notificationError);
+      }
+    } catch (error) {
+      console.error('Error sending message:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to send message. Messaging is only open while the donor's offer to help stands.",
+      });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <MessageCircle className="h-5 w-5" />
+            {otherPartyName}
+          </DialogTitle>
+          <DialogDescription>
+            Messages are only visible to you and {otherPartyName}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 max-h-[50vh] min-h-[200px] overflow-y-auto">
+          {messages.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              No messages yet. Say hello to coordinate the donation.
+            </p>
+          ) : (
+            messages.map((message) => (
+              <div key={message.id} className={cn("flex", isMine(message) ? "justify-end" : "justify-start")}>
+                <div
+                  className={cn(
+                    "max-w-[80%] rounded-lg px-3 py-2 text-sm",
+                    isMine(message) ? "bg-medical-red text-white" : "bg-muted text-foreground"
+                  )}
+                >
+                  <p className="whitespace-pre-wrap break-words">{message.body}</p>
+                  <p className={cn("text-xs mt-1", isMine(message) ? "text-white/70" : "text-muted-foreground")}>
+                    {new Date(message.created_at).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' })}
+                  </p>
+                </div>
+              </div>
+            ))
+          )}
+          <div ref={bottomRef} />
+        </div>
+
+        <div className="flex gap-2">
+          <Textarea
+            value={draft}
+            onChange={(event) => setDraft(event.target.value)}
+            onKeyDown={(event) => {
+              if (event.key === 'Enter' && !event.shiftKey) {
+                event.preventDefault();
+                handleSend();
+              }
+            }}
+            placeholder="Write a message..."
+            maxLength={MAX_MESSAGE_LENGTH}
+            rows={2}
+            className="resize-none"
+          />
+          <Button
+            onClick={handleSend}
+            disabled={isSending || !draft.trim()}
+            className="bg-gradient-primary hover:opacity-90 self-end"
+            aria-label="Send"
+          >
+            <Send className="h-4 w-4" />
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
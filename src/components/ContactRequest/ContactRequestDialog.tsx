@@ -15,6 +15,7 @@ interface ContactRequestDialogProps {
   requestId: string;
   donorId: string;
   donorName: string;
+  onSent?: () => void;
 }
 
 export const ContactRequestDialog = ({
@@ -22,7 +23,8 @@ export const ContactRequestDialog = ({
   onOpenChange,
   requestId,
   donorId,
-  donorName
+  donorName,
+  onSent
 }: ContactRequestDialogProps) => {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const { toast } = useToast();
@@ -66,6 +68,7 @@ export const ContactRequestDialog = ({
 
       form.reset();
       onOpenChange(false);
+      onSent?.();
     } catch (error) {
       console.error('Error sending contact request:', error);
       toast({
@@ -4,72 +4,36 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
+import type { Database } from '@/integrations/supabase/types';
 import { Clock, CheckCircle, XCircle, MessageCircle } from 'lucide-react';
+import { getContactRequestStatus } from '@/lib/contactRequests';
+import { formatTimeRemaining } from '@/lib/requestUrgency';
 
-interface ContactRequest {
-  id: string;
-  request_id: string;
-  donor_id: string;
-  requester_id: string;
-  status: 'pending' | 'approved' | 'declined' | 'expired';
-  message: string;
-  created_at: string;
-  expires_at: string;
-  requests?: {
-    blood_group: string;
-    district: string;
-    requester_name: string;
-    requester_phone: string;
-  };
-  requester_profile?: {
-    full_name: string;
-  };
+type ReceivedContactRequest = Database['public']['Functions']['get_received_contact_requests']['Returns'][number];
+
+interface ContactRequestListProps {
+  userId: string;
 }
 
-export const ContactRequestList = () => {
-  const [requests, setRequests] = useState<ContactRequest[]>([]);
+export const ContactRequestList = ({ userId }: ContactRequestListProps) => {
+  const [requests, setRequests] = useState<ReceivedContactRequest[]>([]);
+  // Requests that were unread when this list opened keep their badge until the user leaves
+  const [newRequestIds, setNewRequestIds] = useState<Set<string>>(new Set());
   const [loading, setLoading] = useState(true);
   const { toast } = useToast();
 
   const fetchContactRequests = async () => {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) return;
-
-      // Fetch contact requests where the current user is the donor
-      const { data, error } = await supabase
-        .from('contact_requests')
-        .select(`
-          *,
-          requests!contact_requests_request_id_fkey(
-            blood_group,
-            district,
-            requester_name,
-            requester_phone
-          )
-        `)
-        .eq('donor_id', user.id)
-        .order('created_at', { ascending: false });
+      // The requester's phone is only included once the donor approved
+      const { data, error } = await supabase.rpc('get_received_contact_requests');
 
       if (error) throw error;
+      setRequests(data || []);
 
-      // Fetch requester profiles separately (only non-sensitive fields)
-      if (data && data.length > 0) {
-        const requesterIds = data.map(r => r.requester_id);
-        const { data: profilesData } = await supabase
-          .from('profiles')
-          .select('user_id, full_name')
-          .in('user_id', requesterIds);
-
-        // Merge profiles with requests
-        const enrichedData = data.map(request => ({
-          ...request,
-          requester_profile: profilesData?.find(p => p.user_id === request.requester_id)
-        }));
-
-        setRequests(enrichedData as any);
-      } else {
-        setRequests([]);
+      const unreadIds = (data || []).filter(request => !request.donor_read_at).map(request => request.id);
+      if (unreadIds.length > 0) {
+        setNewRequestIds(prev => new Set([...prev, ...unreadIds]));
+        await supabase.rpc('mark_contact_requests_read', { folder: 'received' });
       }
     } catch (error) {
       console.error('Error fetching contact requests:', error);
@@ -104,15 +68,37 @@ export const ContactRequestList = () => {
       console.error('Error updating request status:', error);
       toast({
         title: "Error",
-        description: "Failed to update request status.",
+        // Expired and already answered requests are rejected by a trigger with a readable message
+        description: error?.message?.includes('This contact request')
+          ? error.message
+          : "Failed to update request status.",
         variant: "destructive"
       });
+      fetchContactRequests();
     }
   };
 
   useEffect(() => {
     fetchContactRequests();
-  }, []);
+
+    const channel = supabase
+      .channel(`contact-requests-received-${userId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'contact_requests',
+          filter: `donor_id=eq.${userId}`,
+        },
+        () => fetchContactRequests()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId]);
 
   if (loading) {
     return <div className="text-center py-4">Loading contact requests...</div>;
@@ -132,75 +118,91 @@ export const ContactRequestList = () => {
   return (
     <div className="space-y-4">
       <h2 className="text-2xl font-bold">Contact Requests</h2>
-      {requests.map((request) => (
-        <Card key={request.id}>
-          <CardHeader>
-            <div className="flex items-center justify-between">
-              <CardTitle className="text-lg">
-                Blood Request from {request.requester_profile?.full_name || 'Unknown'}
-              </CardTitle>
-              <Badge 
-                variant={
-                  request.status === 'pending' ? 'secondary' :
-                  request.status === 'approved' ? 'default' :
-                  request.status === 'declined' ? 'destructive' : 'outline'
-                }
-              >
-                {request.status}
-              </Badge>
-            </div>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            <div>
-              <p className="text-sm text-muted-foreground mb-2">Blood Type & Location:</p>
-              <p>{request.requests?.blood_group} • {request.requests?.district}</p>
-            </div>
-            
-            <div>
-              <p className="text-sm text-muted-foreground mb-2">Message:</p>
-              <p className="bg-muted p-3 rounded-md">{request.message}</p>
-            </div>
-
-            <div className="flex items-center gap-2 text-sm text-muted-foreground">
-              <Clock className="h-4 w-4" />
-              <span>Received {new Date(request.created_at).toLocaleDateString()}</span>
-            </div>
-
-            {request.status === 'pending' && (
-              <div className="flex gap-2 pt-2">
-                <Button
-                  variant="default"
-                  size="sm"
-                  onClick={() => updateRequestStatus(request.id, 'approved')}
-                  className="flex items-center gap-2"
-                >
-                  <CheckCircle className="h-4 w-4" />
-                  Approve & Share Contact
-                </Button>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => updateRequestStatus(request.id, 'declined')}
-                  className="flex items-center gap-2"
-                >
-                  <XCircle className="h-4 w-4" />
-                  Decline
-                </Button>
+      {requests.map((request) => {
+        const status = getContactRequestStatus(request);
+
+        return (
+          <Card key={request.id}>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle className="text-lg">
+                  Blood Request from {request.requester_name || 'Unknown'}
+                </CardTitle>
+                <div className="flex items-center gap-2">
+                  {newRequestIds.has(request.id) && (
+                    <Badge className="bg-medical-red text-white">New</Badge>
+                  )}
+                  <Badge
+                    variant={
+                      status === 'pending' ? 'secondary' :
+                      status === 'approved' ? 'default' :
+                      status === 'declined' ? 'destructive' : 'outline'
+                    }
+                  >
+                    {status}
+                  </Badge>
+                </div>
               </div>
-            )}
-
-            {request.status === 'approved' && (
-              <div className="bg-green-50 p-3 rounded-md">
-                <p className="text-sm text-green-800">
-                  Your contact information has been shared. The requester can now reach you at:
-                  <br />
-                  <strong>{request.requests?.requester_phone}</strong>
-                </p>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div>
+                <p className="text-sm text-muted-foreground mb-2">Blood Type & Location:</p>
+                <p>{request.request_blood_group} • {request.request_district}</p>
+              </div>
+              
+              <div>
+                <p className="text-sm text-muted-foreground mb-2">Message:</p>
+                <p className="bg-muted p-3 rounded-md">{request.message}</p>
+              </div>
+
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Clock className="h-4 w-4" />
+                <span>Received {new Date(request.created_at).toLocaleDateString()}</span>
+                {status === 'pending' && <span>• {formatTimeRemaining(request.expires_at)} to respond</span>}
               </div>
-            )}
-          </CardContent>
-        </Card>
-      ))}
+
+              {status === 'pending' && (
+                <div className="flex gap-2 pt-2">
+                  <Button
+                    variant="default"
+                    size="sm"
+                    onClick={() => updateRequestStatus(request.id, 'approved')}
+                    className="flex items-center gap-2"
+                  >
+                    <CheckCircle className="h-4 w-4" />
+                    Approve & Share Contact
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => updateRequestStatus(request.id, 'declined')}
+                    className="flex items-center gap-2"
+                  >
+                    <XCircle className="h-4 w-4" />
+                    Decline
+                  </Button>
+                </div>
+              )}
+
+              {status === 'expired' && (
+                <p className="text-sm text-muted-foreground">
+                  This request expired before you responded, so your contact information stays private.
+                </p>
+              )}
+
+              {status === 'approved' && (
+                <div className="bg-green-50 p-3 rounded-md">
+                  <p className="text-sm text-green-800">
+                    Your contact information has been shared. You can also reach the requester at:
+                    <br />
+                    <strong>{request.requester_phone}</strong>
+                  </p>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        );
+      })}
     </div>
   );
 };
\ No newline at end of file
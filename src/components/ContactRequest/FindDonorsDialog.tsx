@@ -0,0 +1,143 @@
+import { useState, useEffect, useCallback } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { BadgeCheck, MapPin, MessageCircle, Search, UserX } from "lucide-react";
+import { BLOOD_COMPONENT_LABELS, type BloodComponent, type BloodGroup } from "@/lib/bloodCompatibility";
+import { ContactRequestDialog } from "./ContactRequestDialog";
+
+type MatchingDonor = Database["public"]["Functions"]["search_request_donors"]["Returns"][number];
+
+interface FindDonorsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  request: {
+    id: string;
+    blood_group: BloodGroup;
+    component: BloodComponent;
+  } | null;
+}
+
+const CONTACT_STATUS_LABELS: Record<string, string> = {
+  pending: "Request sent",
+  approved: "Contact shared",
+  declined: "Declined",
+  expired: "Expired",
+};
+
+export const FindDonorsDialog = ({ isOpen, onClose, request }: FindDonorsDialogProps) => {
+  const [donors, setDonors] = useState<MatchingDonor[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [contactingDonor, setContactingDonor] = useState<MatchingDonor | null>(null);
+
+  const fetchDonors = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase.rpc('search_request_donors', {
+        target_request_id: request.id
+      });
+
+      if (error) throw error;
+      setDonors(data || []);
+    } catch (error) {
+      console.error('Error searching donors:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [request]);
+
+  useEffect(() => {
+    if (isOpen && request) {
+      fetchDonors();
+    }
+  }, [isOpen, request, fetchDonors]);
+
+  return (
+    <>
+      <Dialog open={isOpen} onOpenChange={onClose}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Search className="h-5 w-5" />
+              Find Donors
+            </DialogTitle>
+            <DialogDescription>
+              {request && (
+                <>
+                  Available donors who can give {BLOOD_COMPONENT_LABELS[request.component].toLowerCase()} for{" "}
+                  {request.blood_group}. Their phone numbers stay private until they approve your request.
+                </>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-3 max-h-[60vh] overflow-y-auto">
+            {isLoading ? (
+              <p className="text-sm text-muted-foreground text-center py-6">Searching donors...</p>
+            ) : donors.length === 0 ? (
+              <div className="text-center py-6">
+                <UserX className="h-10 w-10 text-muted-foreground mx-auto mb-2" />
+                <p className="text-sm text-muted-foreground">
+                  No available donors found nearby. Donors who match will still be notified about your request.
+                </p>
+              </div>
+            ) : (
+              donors.map((donor) => (
+                <div key={donor.user_id} className="border rounded-lg p-3 flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="font-medium text-foreground flex items-center gap-1 truncate">
+                      {donor.full_name}
+                      {donor.is_confirmed && <BadgeCheck className="h-4 w-4 text-success shrink-0" />}
+                    </p>
+                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                      <Badge variant="secondary" className="bg-medical-red text-white">
+                        {donor.blood_group}
+                      </Badge>
+                      <MapPin className="h-3 w-3" />
+                      {donor.district}
+                      {donor.distance_km != null && <span>• {donor.distance_km.toFixed(1)} km</span>}
+                    </div>
+                  </div>
+                  {donor.contact_status ? (
+                    <Badge variant={donor.contact_status === 'approved' ? 'default' : 'outline'} className="shrink-0">
+                      {CONTACT_STATUS_LABELS[donor.contact_status] ?? donor.contact_status}
+                    </Badge>
+                  ) : (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setContactingDonor(donor)}
+                      className="shrink-0"
+                    >
+                      <MessageCircle className="h-4 w-4 mr-2" />
+                      Request Contact
+                    </Button>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {request && contactingDonor && (
+        <ContactRequestDialog
+          open={!!contactingDonor}
+          onOpenChange={(open) => !open && setContactingDonor(null)}
+          requestId={request.id}
+          donorId={contactingDonor.user_id}
+          donorName={contactingDonor.full_name}
+          onSent={fetchDonors}
+        />
+      )}
+    </>
+  );
+};
@@ -0,0 +1,164 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import type { Database } from '@/integrations/supabase/types';
+import { Clock, Phone, Send } from 'lucide-react';
+import { getContactRequestStatus } from '@/lib/contactRequests';
+
+type SentContactRequest = Database['public']['Functions']['get_sent_contact_requests']['Returns'][number];
+
+const STATUS_DESCRIPTIONS: Record<string, string> = {
+  pending: 'Waiting for the donor to respond.',
+  declined: 'The donor declined to share their contact information.',
+  expired: 'The donor did not respond before this contact request or your blood request expired.',
+};
+
+interface SentContactRequestListProps {
+  userId: string;
+}
+
+export const SentContactRequestList = ({ userId }: SentContactRequestListProps) => {
+  const [requests, setRequests] = useState<SentContactRequest[]>([]);
+  // Answers that were unread when this list opened keep their badge until the user leaves
+  const [newRequestIds, setNewRequestIds] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  const fetchSentRequests = useCallback(async () => {
+    try {
+      const { data, error } = await supabase.rpc('get_sent_contact_requests');
+
+      if (error) throw error;
+      setRequests(data || []);
+
+      const unreadIds = (data || []).filter(request => request.is_unread).map(request => request.id);
+      if (unreadIds.length > 0) {
+        setNewRequestIds(prev => new Set([...prev, ...unreadIds]));
+        await supabase.rpc('mark_contact_requests_read', { folder: 'sent' });
+      }
+    } catch (error) {
+      console.error('Error fetching sent contact requests:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load sent contact requests.",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchSentRequests();
+
+    const channel = supabase
+      .channel(`contact-requests-sent-${userId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'contact_requests',
+          filter: `requester_id=eq.${userId}`,
+        },
+        () => fetchSentRequests()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, fetchSentRequests]);
+
+  if (loading) {
+    return <div className="text-center py-4">Loading sent requests...</div>;
+  }
+
+  if (requests.length === 0) {
+    return (
+      <Card>
+        <CardContent className="text-center py-8">
+          <Send className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+          <p className="text-muted-foreground">You haven't asked any donors for their contact yet.</p>
+          <p className="text-sm text-muted-foreground mt-1">
+            Use Find Donors on one of your open requests to reach out.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-2xl font-bold">Sent Requests</h2>
+      {requests.map((request) => {
+        const status = getContactRequestStatus(request);
+
+        return (
+          <Card key={request.id}>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle className="text-lg">
+                  {request.donor_name || 'Donor'} ({request.donor_blood_group})
+                </CardTitle>
+                <div className="flex items-center gap-2">
+                  {newRequestIds.has(request.id) && (
+                    <Badge className="bg-medical-red text-white">New</Badge>
+                  )}
+                  <Badge
+                    variant={
+                      status === 'pending' ? 'secondary' :
+                      status === 'approved' ? 'default' :
+                      status === 'declined' ? 'destructive' : 'outline'
+                    }
+                  >
+                    {status}
+                  </Badge>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div>
+                <p className="text-sm text-muted-foreground mb-2">For your request:</p>
+                <p>{request.request_blood_group} • {request.request_district}</p>
+              </div>
+
+              {request.message && (
+                <div>
+                  <p className="text-sm text-muted-foreground mb-2">Your message:</p>
+                  <p className="bg-muted p-3 rounded-md">{request.message}</p>
+                </div>
+              )}
+
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Clock className="h-4 w-4" />
+                <span>Sent {new Date(request.created_at).toLocaleDateString()}</span>
+              </div>
+
+              {status === 'approved' && request.donor_phone ? (
+                <div className="bg-green-50 p-3 rounded-md flex items-center justify-between gap-2">
+                  <p className="text-sm text-green-800">
+                    {request.donor_name} shared their contact:
+                    <br />
+                    <strong>{request.donor_phone}</strong>
+                  </p>
+                  <Button size="sm" variant="outline" asChild>
+                    <a href={`tel:${request.donor_phone}`}>
+                      <Phone className="h-4 w-4 mr-2" />
+                      Call
+                    </a>
+                  </Button>
+                </div>
+              ) : STATUS_DESCRIPTIONS[status] && (
+                <p className="text-sm text-muted-foreground">{STATUS_DESCRIPTIONS[status]}</p>
+              )}
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,103 @@
+import { useState } from "react";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { addDays, format } from "date-fns";
+import { isAvailable } from "@/lib/donorEligibility";
+
+interface AvailabilityToggleProps {
+  userId: string;
+  isAvailableFlag: boolean;
+  unavailableUntil: string | null;
+  onChange: () => void;
+}
+
+const snoozeOptions = [
+  { value: 'indefinite', label: 'Until I turn it back on' },
+  { value: '1', label: 'For 1 day' },
+  { value: '3', label: 'For 3 days' },
+  { value: '7', label: 'For 1 week' },
+  { value: '30', label: 'For 1 month' },
+];
+
+export const AvailabilityToggle = ({ userId, isAvailableFlag, unavailableUntil, onChange }: AvailabilityToggleProps) => {
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const available = isAvailable({ is_available: isAvailableFlag, unavailable_until: unavailableUntil });
+
+  const updateAvailability = async (isAvailableNow: boolean, until: Date | null) => {
+    setIsSaving(true);
+    try {
+      const { error } = await supabase
+        .from('profiles')
+        .update({
+          is_available: isAvailableNow,
+          unavailable_until: until?.toISOString() ?? null,
+        })
+        .eq('user_id', userId);
+
+      if (error) throw error;
+
+      toast({
+        title: isAvailableNow ? "You're available" : "Requests paused",
+        description: isAvailableNow
+          ? "You'll see blood requests and receive notifications again."
+          : until
+            ? `You won't see requests or receive notifications until ${format(until, 'PPP')}.`
+            : "You won't see requests or receive notifications until you turn this back on.",
+      });
+
+      onChange();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to update availability",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSnoozeChange = (value: string) => {
+    updateAvailability(false, value === 'indefinite' ? null : addDays(new Date(), Number(value)));
+  };
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-3 mt-3">
+      <div className="flex items-center gap-2">
+        <Switch
+          id="availability"
+          checked={available}
+          disabled={isSaving}
+          onCheckedChange={(checked) => updateAvailability(checked, null)}
+        />
+        <Label htmlFor="availability" className="text-sm">
+          {available ? 'Available to donate' : 'Not available'}
+        </Label>
+      </div>
+
+      {!available && (
+        <Select
+          value={unavailableUntil ? '' : 'indefinite'}
+          onValueChange={handleSnoozeChange}
+          disabled={isSaving}
+        >
+          <SelectTrigger className="w-56 h-8 text-sm">
+            <SelectValue placeholder={unavailableUntil ? `Until ${format(new Date(unavailableUntil), 'PPP')}` : undefined} />
+          </SelectTrigger>
+          <SelectContent>
+            {snoozeOptions.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,139 @@
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { X } from "lucide-react";
+import {
+  CANCELLATION_REASONS,
+  CANCELLATION_REASON_LABELS,
+  type CancellationReason,
+} from "@/lib/requestCancellation";
+
+interface CancelRequestDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  requestId: string | null;
+  onSuccess: () => void;
+}
+
+export const CancelRequestDialog = ({ isOpen, onClose, requestId, onSuccess }: CancelRequestDialogProps) => {
+  const [reason, setReason] = useState<CancellationReason>('fulfilled_elsewhere');
+  const [note, setNote] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const { toast } = useToast();
+
+  const handleClose = () => {
+    setReason('fulfilled_elsewhere');
+    setNote("");
+    onClose();
+  };
+
+  const handleCancelRequest = async () => {
+    setIsLoading(true);
+    try {
+      const { error } = await supabase.rpc('cancel_request', {
+        target_request_id: requestId,
+        reason,
+        note: note.trim() || null,
+      });
+
+      if (error) throw error;
+
+      // Let donors who offered to help know they are no longer needed
+      try {
+        const { error: notificationError } = await supabase.functions.invoke('send-blood-request-notifications', {
+          body: { requestId, type: 'request_cancelled' }
+        });
+
+        if (notificationError) {
+          console.error('Failed to send cancellation notifications:', notificationError);
+        }
+      } catch (notificationError) {
+        console.error('Error sending cancellation notifications:', notificationError);
+      }
+
+      toast({
+        title: "Request Cancelled",
+        description: "Donors who offered to help have been notified.",
+      });
+
+      onSuccess();
+      handleClose();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to cancel request.",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Cancel Request</DialogTitle>
+          <DialogDescription>
+            Let donors know why this request is no longer open.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <RadioGroup value={reason} onValueChange={(value) => setReason(value as CancellationReason)}>
+            {CANCELLATION_REASONS.map((option) => (
+              <div key={option} className="flex items-center space-x-2">
+                <RadioGroupItem value={option} id={`reason-${option}`} />
+                <Label htmlFor={`reason-${option}`} className="font-normal">
+                  {CANCELLATION_REASON_LABELS[option]}
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+
+          <div className="space-y-2">
+            <Label htmlFor="cancellationNote">Note (Optional)</Label>
+            <Textarea
+              id="cancellationNote"
+              placeholder="Anything donors should know..."
+              className="min-h-[80px]"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="flex gap-3 pt-4">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={handleClose}
+            className="flex-1"
+          >
+            Keep Request
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={handleCancelRequest}
+            disabled={isLoading}
+            className="flex-1"
+          >
+            <X className="h-4 w-4 mr-2" />
+            {isLoading ? "Cancelling..." : "Cancel Request"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
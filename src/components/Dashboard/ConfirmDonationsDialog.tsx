@@ -0,0 +1,258 @@
+import { useState, useEffect, useCallback } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import type { Database } from "@/integrations/supabase/types";
+import { CheckCircle, MessageCircle, UserX } from "lucide-react";
+import { BLOOD_COMPONENT_LABELS, type BloodComponent } from "@/lib/bloodCompatibility";
+import { PhoneRelayContact } from "./PhoneRelayContact";
+import { MessageThreadDialog } from "@/components/Chat/MessageThreadDialog";
+
+type RequestClaim = Database["public"]["Functions"]["get_request_claims"]["Returns"][number];
+
+interface ConfirmDonationsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  request: {
+    id: string;
+    component: BloodComponent;
+    units_needed: number;
+  } | null;
+  onSuccess: () => void;
+}
+
+export const ConfirmDonationsDialog = ({ isOpen, onClose, request, onSuccess }: ConfirmDonationsDialogProps) => {
+  const [claims, setClaims] = useState<RequestClaim[]>([]);
+  const [donatedUnits, setDonatedUnits] = useState<{[claimId: string]: number}>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [messagingClaim, setMessagingClaim] = useState<RequestClaim | null>(null);
+  const { toast } = useToast();
+
+  const fetchClaims = useCallback(async () => {
+    try {
+      const { data, error } = await supabase.rpc('get_request_claims', {
+        target_request_id: request.id
+      });
+
+      if (error) throw error;
+      setClaims(data || []);
+    } catch (error) {
+      console.error('Error fetching request claims:', error);
+    }
+  }, [request]);
+
+  useEffect(() => {
+    if (isOpen && request) {
+      fetchClaims();
+    }
+  }, [isOpen, request, fetchClaims]);
+
+  const handleConfirmDonation = async (claim: RequestClaim, units: number) => {
+    setIsSaving(true);
+    try {
+      const { error } = await supabase.rpc('confirm_donation', {
+        target_claim_id: claim.claim_id,
+        units
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: units > 0 ? "Donation Confirmed" : "Marked as Not Donated",
+        description: units > 0
+          ? `${claim.donor_name} donated ${units} unit${units !== 1 ? 's' : ''}.`
+          : `${claim.donor_name} will not be counted towards this request.`,
+      });
+
+      fetchClaims();
+      onSuccess();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to confirm donation.",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleMarkFulfilled = async () => {
+    setIsSaving(true);
+    try {
+      const { error } = await supabase.rpc('fulfil_request', {
+        target_request_id: request.id
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Request Fulfilled",
+        description: "Thank you for letting donors know. Your request is now closed.",
+      });
+
+      onSuccess();
+      onClose();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to close request.",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const confirmedUnits = claims.reduce((total, claim) => total + (claim.confirmed_units || 0), 0);
+
+  return (
+    <>
+      <Dialog open={isOpen} onOpenChange={onClose}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <div className="bg-gradient-primary p-2 rounded-lg">
+                <CheckCircle className="h-5 w-5 text-white" />
+              </div>
+              Confirm Donations
+            </DialogTitle>
+            {request && (
+              <DialogDescription>
+                Mark which donors gave {BLOOD_COMPONENT_LABELS[request.component].toLowerCase()} and how many units.
+                {' '}{confirmedUnits} of {request.units_needed} unit{request.units_needed !== 1 ? 's' : ''} confirmed so far.
+              </DialogDescription>
+            )}
+          </DialogHeader>
+
+          {claims.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              No donors have offered to help yet.
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {claims.map((claim) => (
+                <div key={claim.claim_id} className="border rounded-lg p-3 space-y-2">
+                  <div className="flex justify-between items-start">
+                    <div>
+                      <p className="font-medium text-foreground">{claim.donor_name}</p>
+                      <p className="text-sm text-muted-foreground">
+                        Pledged {claim.pledged_units} unit{claim.pledged_units !== 1 ? 's' : ''}
+                      </p>
+                      {!claim.requester_confirmed_at && (
+                        <div className="mt-2 flex items-center gap-2">
+                          <PhoneRelayContact requestId={request.id} donorId={claim.donor_id} compact />
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setMessagingClaim(claim)}
+                            className="flex items-center gap-2"
+                          >
+                            <MessageCircle className="h-4 w-4" />
+                            Message
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Badge variant="secondary" className="bg-medical-red text-white">
+                        {claim.donor_blood_group}
+                      </Badge>
+                      {claim.donor_confirmed_at && (
+                        <Badge variant="outline" className="border-success text-success">
+                          Donor confirmed
+                        </Badge>
+                      )}
+                    </div>
+                  </div>
+
+                  {claim.requester_confirmed_at ? (
+                    <p className="text-sm text-success flex items-center gap-1">
+                      <CheckCircle className="h-4 w-4" />
+                      {claim.confirmed_units > 0
+                        ? `Donated ${claim.confirmed_units} unit${claim.confirmed_units !== 1 ? 's' : ''}`
+                        : 'Did not donate'}
+                    </p>
+                  ) : (
+                    <div className="flex gap-2">
+                      <Select
+                        value={String(donatedUnits[claim.claim_id] || claim.pledged_units)}
+                        onValueChange={(value) => setDonatedUnits(prev => ({ ...prev, [claim.claim_id]: Number(value) }))}
+                      >
+                        <SelectTrigger className="w-28">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Array.from({ length: Math.max(request.units_needed, claim.pledged_units) }, (_, i) => i + 1).map((units) => (
+                            <SelectItem key={units} value={String(units)}>
+                              {units} unit{units !== 1 ? 's' : ''}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        size="sm"
+                        disabled={isSaving}
+                        onClick={() => handleConfirmDonation(claim, donatedUnits[claim.claim_id] || claim.pledged_units)}
+                        className="flex-1 bg-gradient-primary hover:opacity-90"
+                      >
+                        Donated
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={isSaving}
+                        onClick={() => handleConfirmDonation(claim, 0)}
+                      >
+                        <UserX className="h-4 w-4 mr-1" />
+                        No-show
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex gap-3 pt-4">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onClose}
+              className="flex-1"
+            >
+              Close
+            </Button>
+            <Button
+              onClick={handleMarkFulfilled}
+              disabled={isSaving || confirmedUnits === 0}
+              className="flex-1 bg-gradient-primary hover:opacity-90"
+            >
+              Mark Fulfilled
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {request && messagingClaim && (
+        <MessageThreadDialog
+          isOpen={!!messagingClaim}
+          onClose={() => setMessagingClaim(null)}
+          requestId={request.id}
+          donorId={messagingClaim.donor_id}
+          viewerRole="requester"
+          otherPartyName={messagingClaim.donor_name || 'Donor'}
+        />
+      )}
+    </>
+  );
+};
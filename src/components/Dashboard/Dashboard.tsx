@@ -1,36 +1,55 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Progress } from "@/components/ui/progress";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import type { Database } from "@/integrations/supabase/types";
-import { Droplets, Plus, Clock, MapPin, Phone, User, Heart, Copy, X, MessageCircle } from "lucide-react";
-import { RequestBloodDialog } from "./RequestBloodDialog";
+import { Droplets, Plus, Clock, MapPin, Phone, User, Heart, X, MessageCircle, Repeat, Map as MapIcon, CheckCircle, Search, TimerReset } from "lucide-react";
+import { RequestBloodDialog, type RepostableRequest } from "./RequestBloodDialog";
+import { ConfirmDonationsDialog } from "./ConfirmDonationsDialog";
+import { CancelRequestDialog } from "./CancelRequestDialog";
+import { RecurringRequestsList } from "./RecurringRequestsList";
+import { RequestHistoryList } from "./RequestHistoryList";
+import { AvailabilityToggle } from "./AvailabilityToggle";
+import { DonorRequestCard, UrgencyBadge, type BloodRequest, type MyClaim } from "./DonorRequestCard";
+import { RequestsMap } from "./RequestsMap";
+import { ExtendRequestDialog, type ExtendableRequest } from "./ExtendRequestDialog";
+import { HospitalCard } from "@/components/Location/HospitalCard";
+import { FindDonorsDialog } from "@/components/ContactRequest/FindDonorsDialog";
+import {
+  BLOOD_COMPONENT_LABELS,
+  type BloodComponent,
+  type BloodGroup,
+} from "@/lib/bloodCompatibility";
+import { compareByUrgency, formatTimeRemaining, isExpiringSoon } from "@/lib/requestUrgency";
+import { getDaysUntilEligible, isAvailable, isDeferred } from "@/lib/donorEligibility";
+import { attachHospitals } from "@/lib/hospitals";
 
 interface Profile {
   id: string;
+  user_id: string;
   full_name: string;
+  district_id: number | null;
   district: string;
-  blood_group: string;
+  latitude: number | null;
+  longitude: number | null;
+  match_radius_km: number;
+  blood_group: BloodGroup;
+  donatable_components: BloodComponent[];
+  eligible_again_on: string | null;
+  is_available: boolean;
+  unavailable_until: string | null;
 }
 
-interface BloodRequest {
-  id: string;
-  requester_name: string;
-  requester_phone: string;
-  blood_group: string;
-  district: string;
-  location_description?: string;
-  message?: string;
-  created_at: string;
-  expires_at: string;
-  status: string;
-  requester_id: string;
+interface RequestProgress {
+  helpers: number;
+  pledgedUnits: number;
+  confirmedUnits: number;
 }
 
-
 interface DashboardProps {
   user: any;
 }
@@ -39,9 +58,16 @@ export const Dashboard = ({ user }: DashboardProps) => {
   const [profile, setProfile] = useState<Profile | null>(null);
   const [requests, setRequests] = useState<BloodRequest[]>([]);
   const [myRequests, setMyRequests] = useState<BloodRequest[]>([]);
-  const [claimedRequests, setClaimedRequests] = useState<Set<string>>(new Set());
-  const [contactRequestCounts, setContactRequestCounts] = useState<{[key: string]: number}>({});
+  const [myClaims, setMyClaims] = useState<{[requestId: string]: MyClaim}>({});
+  const [requestProgress, setRequestProgress] = useState<{[key: string]: RequestProgress}>({});
   const [isRequestDialogOpen, setIsRequestDialogOpen] = useState(false);
+  const [confirmingRequest, setConfirmingRequest] = useState<BloodRequest | null>(null);
+  const [cancellingRequestId, setCancellingRequestId] = useState<string | null>(null);
+  const [findingDonorsFor, setFindingDonorsFor] = useState<BloodRequest | null>(null);
+  const [extendingRequest, setExtendingRequest] = useState<ExtendableRequest | null>(null);
+  const [repostFrom, setRepostFrom] = useState<RepostableRequest | null>(null);
+  const [requestListsKey, setRequestListsKey] = useState(0);
+  const [mapRefreshToken, setMapRefreshToken] = useState(0);
   const [loading, setLoading] = useState(true);
   const { toast } = useToast();
 
@@ -65,6 +91,7 @@ export const Dashboard = ({ user }: DashboardProps) => {
           () => {
             fetchRequests();
             fetchMyRequests();
+            setMapRefreshToken(token => token + 1);
           }
         )
         .subscribe();
@@ -80,6 +107,8 @@ export const Dashboard = ({ user }: DashboardProps) => {
           },
           () => {
             fetchClaims();
+            fetchMyRequests();
+            setMapRefreshToken(token => token + 1);
           }
         )
         .subscribe();
@@ -110,41 +139,46 @@ export const Dashboard = ({ user }: DashboardProps) => {
     }
   };
 
-  const fetchRequests = async () => {
+  const fetchRequests = useCallback(async () => {
     try {
       if (!profile) return;
-      
-      const { data, error } = await supabase
-        .from('requests')
-        .select('*')
-        .eq('status', 'open')
-        .gt('expires_at', new Date().toISOString())
-        .eq('district', profile.district)
-        .eq('blood_group', profile.blood_group as any)
-        .neq('requester_id', user.id)
-        .order('created_at', { ascending: false });
+
+      // get_safe_requests applies reach, compatibility, availability and deferral server side and only returns
+      // the requester's phone to donors with an approved contact request
+      const { data, error } = await supabase.rpc('get_safe_requests');
 
       if (error) throw error;
-      setRequests(data || []);
+
+      // The donor's own requests live in the My Requests tab
+      const othersRequests = (data || []).filter(request => request.requester_id !== user.id);
+      const requestsWithHospitals = await attachHospitals(othersRequests);
+      setRequests(requestsWithHospitals.sort(compareByUrgency));
     } catch (error: any) {
       console.error('Error fetching requests:', error);
     } finally {
       setLoading(false);
     }
-  };
+  }, [profile, user]);
+
+  // The feed depends on the donor's district, blood group and availability, so refetch whenever the profile changes
+  useEffect(() => {
+    if (profile) {
+      fetchRequests();
+    }
+  }, [profile, fetchRequests]);
 
   const fetchMyRequests = async () => {
     try {
       const { data, error } = await supabase
-        .from('requests')
-        .select('*')
-        .eq('requester_id', user.id)
+        .rpc('get_my_requests')
         .eq('status', 'open')
-        .order('created_at', { ascending: false });
+        // Requests past their expiry move to Past Requests even before the scheduled job marks them expired
+        .gt('expires_at', new Date().toISOString());
 
       if (error) throw error;
-      setMyRequests(data || []);
-      await fetchMyRequestContactCounts();
+      const requestsWithHospitals = await attachHospitals(data || []);
+      setMyRequests(requestsWithHospitals.sort(compareByUrgency));
+      await fetchMyRequestProgress((data || []).map(req => req.id));
     } catch (error: any) {
       console.error('Error fetching my requests:', error);
     }
@@ -154,48 +188,52 @@ export const Dashboard = ({ user }: DashboardProps) => {
     try {
       const { data, error } = await supabase
         .from('claims')
-        .select('request_id')
+        .select('id, request_id, donor_confirmed_at')
         .eq('donor_id', user.id);
 
       if (error) throw error;
       
-      const claimedIds = new Set(data?.map(claim => claim.request_id) || []);
-      setClaimedRequests(claimedIds);
+      const claimsByRequest: {[requestId: string]: MyClaim} = {};
+      data?.forEach(claim => {
+        claimsByRequest[claim.request_id] = { id: claim.id, donor_confirmed_at: claim.donor_confirmed_at };
+      });
+      setMyClaims(claimsByRequest);
     } catch (error: any) {
       console.error('Error fetching claims:', error);
     }
   };
 
-  const fetchMyRequestContactCounts = async () => {
+  const fetchMyRequestProgress = async (myRequestIds: string[]) => {
     try {
-      const myRequestIds = myRequests.map(req => req.id);
       if (myRequestIds.length === 0) return;
 
-      const { data, error } = await supabase
-        .from('claims')
-        .select('request_id')
-        .in('request_id', myRequestIds);
+      const { data, error } = await supabase.rpc('get_my_request_progress');
 
       if (error) throw error;
       
-      const counts: {[key: string]: number} = {};
-      data?.forEach(claim => {
-        counts[claim.request_id] = (counts[claim.request_id] || 0) + 1;
+      const progress: {[key: string]: RequestProgress} = {};
+      data?.forEach(row => {
+        progress[row.request_id] = {
+          helpers: row.helpers,
+          pledgedUnits: row.pledged_units,
+          confirmedUnits: row.confirmed_units,
+        };
       });
       
-      setContactRequestCounts(counts);
+      setRequestProgress(progress);
     } catch (error: any) {
-      console.error('Error fetching my request claim counts:', error);
+      console.error('Error fetching my request progress:', error);
     }
   };
 
-  const handleClaimRequest = async (requestId: string) => {
+  const handleClaimRequest = async (requestId: string, pledgedUnits: number) => {
     try {
       const { error } = await supabase
         .from('claims')
         .insert({
           request_id: requestId,
-          donor_id: user.id
+          donor_id: user.id,
+          pledged_units: pledgedUnits
         });
 
       if (error) throw error;
@@ -215,52 +253,30 @@ export const Dashboard = ({ user }: DashboardProps) => {
     }
   };
 
-  const handleCancelRequest = async (requestId: string) => {
+  const handleConfirmMyDonation = async (claimId: string) => {
     try {
-      // Delete the request - claims will be deleted automatically due to CASCADE
-      const { error } = await supabase
-        .from('requests')
-        .delete()
-        .eq('id', requestId);
+      const { error } = await supabase.rpc('confirm_my_donation', {
+        target_claim_id: claimId
+      });
 
       if (error) throw error;
 
       toast({
-        title: "Request Deleted",
-        description: "Your blood request has been permanently deleted.",
+        title: "Thank You for Donating!",
+        description: "Your donation has been recorded and your recovery period has started.",
       });
-      
-      fetchMyRequests();
-      fetchRequests();
-    } catch (error: any) {
+
+      fetchClaims();
+      fetchProfile();
+    } catch (error) {
       toast({
         variant: "destructive",
-        title: "Error", 
-        description: "Failed to cancel request.",
+        title: "Error",
+        description: "Failed to confirm your donation.",
       });
     }
   };
 
-  const copyToClipboard = (text: string) => {
-    navigator.clipboard.writeText(text);
-    toast({
-      title: "Copied!",
-      description: "Phone number copied to clipboard.",
-    });
-  };
-
-  const formatTimeRemaining = (expiresAt: string) => {
-    const now = new Date();
-    const expires = new Date(expiresAt);
-    const hoursRemaining = Math.floor((expires.getTime() - now.getTime()) / (1000 * 60 * 60));
-    
-    if (hoursRemaining < 1) {
-      const minutesRemaining = Math.floor((expires.getTime() - now.getTime()) / (1000 * 60));
-      return `${minutesRemaining}m left`;
-    }
-    return `${hoursRemaining}h left`;
-  };
-
   if (loading || !profile) {
     return (
       <div className="space-y-6">
@@ -293,6 +309,18 @@ export const Dashboard = ({ user }: DashboardProps) => {
             {profile.blood_group}
           </Badge> • District: {profile.district}
         </div>
+        {isDeferred(profile.eligible_again_on) && (
+          <div className="inline-flex items-center gap-2 mt-3 px-4 py-2 rounded-lg bg-warning/10 text-sm text-foreground">
+            <Clock className="h-4 w-4 text-warning" />
+            Thank you for donating! You can donate again in {getDaysUntilEligible(profile.eligible_again_on)} day{getDaysUntilEligible(profile.eligible_again_on) !== 1 ? 's' : ''}.
+          </div>
+        )}
+        <AvailabilityToggle
+          userId={user.id}
+          isAvailableFlag={profile.is_available}
+          unavailableUntil={profile.unavailable_until}
+          onChange={fetchProfile}
+        />
       </div>
 
       {/* Quick Actions */}
@@ -309,11 +337,15 @@ export const Dashboard = ({ user }: DashboardProps) => {
 
       {/* Navigation Tabs */}
       <Tabs defaultValue="requests" className="w-full">
-        <TabsList className="grid w-full grid-cols-2">
+        <TabsList className="grid w-full grid-cols-3">
           <TabsTrigger value="requests" className="flex items-center gap-2">
             <Heart className="h-4 w-4" />
             Requests ({requests.length})
           </TabsTrigger>
+          <TabsTrigger value="map" className="flex items-center gap-2">
+            <MapIcon className="h-4 w-4" />
+            Map
+          </TabsTrigger>
           <TabsTrigger value="my-requests" className="flex items-center gap-2">
             <Droplets className="h-4 w-4" />
             My Requests ({myRequests.filter(req => req.status === 'open').length})
@@ -327,93 +359,77 @@ export const Dashboard = ({ user }: DashboardProps) => {
             <Card className="border-0 shadow-soft">
               <CardContent className="text-center py-12">
                 <Droplets className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
-                <p className="text-lg text-muted-foreground">No blood requests available</p>
-                <p className="text-sm text-muted-foreground mt-1">
-                  Check back later or help others by spreading the word
-                </p>
+                {!isAvailable(profile) ? (
+                  <>
+                    <p className="text-lg text-muted-foreground">You're marked as unavailable</p>
+                    <p className="text-sm text-muted-foreground mt-1">
+                      Turn availability back on to see blood requests in your area
+                    </p>
+                  </>
+                ) : isDeferred(profile.eligible_again_on) ? (
+                  <>
+                    <p className="text-lg text-muted-foreground">You're in your recovery period</p>
+                    <p className="text-sm text-muted-foreground mt-1">
+                      Requests will show up here again once you are eligible to donate
+                    </p>
+                  </>
+                ) : (
+                  <>
+                    <p className="text-lg text-muted-foreground">No blood requests available</p>
+                    <p className="text-sm text-muted-foreground mt-1">
+                      Check back later or help others by spreading the word
+                    </p>
+                  </>
+                )}
               </CardContent>
             </Card>
           ) : (
             <div className="grid gap-4">
-              {requests.map((request) => {
-                const isClaimed = claimedRequests.has(request.id);
-                
-                return (
-                  <Card key={request.id} className="border-0 shadow-soft hover:shadow-medium transition-shadow">
-                    <CardContent className="p-6">
-                      <div className="flex justify-between items-start mb-4">
-                        <div className="flex items-center gap-3">
-                          <div className="bg-medical-red p-2 rounded-lg">
-                            <Droplets className="h-5 w-5 text-white" />
-                          </div>
-                          <div>
-                            <h4 className="font-semibold text-foreground">
-                              {request.requester_name}
-                            </h4>
-                            <Badge variant="secondary" className="bg-medical-red text-white">
-                              {request.blood_group}
-                            </Badge>
-                          </div>
-                        </div>
-                        <div className="text-right">
-                          <div className="flex items-center gap-2 text-sm text-muted-foreground mb-1">
-                            <Clock className="h-4 w-4" />
-                            {formatTimeRemaining(request.expires_at)}
-                          </div>
-                        </div>
-                      </div>
+              {requests.map((request) => (
+                <DonorRequestCard
+                  key={request.id}
+                  request={request}
+                  donor={profile}
+                  myClaim={myClaims[request.id]}
+                  onClaim={handleClaimRequest}
+                  onConfirmMyDonation={handleConfirmMyDonation}
+                />
+              ))}
+            </div>
+          )}
+        </TabsContent>
 
-                      <div className="space-y-2 mb-4">
-                        <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                          <MapPin className="h-4 w-4" />
-                          {request.district} • {request.location_description}
-                        </div>
-                        {request.message && (
-                          <p className="text-sm text-foreground bg-soft-gray p-3 rounded-lg">
-                            "{request.message}"
-                          </p>
-                        )}
-                      </div>
+        <TabsContent value="map" className="space-y-4">
+          <h3 className="text-xl font-semibold text-foreground">Requests Near You</h3>
 
-                      {isClaimed ? (
-                        <div className="space-y-3">
-                          <div className="bg-success/10 border border-success/20 rounded-lg p-4">
-                            <div className="flex items-center justify-between">
-                              <div>
-                                <p className="font-medium text-success">Contact Information</p>
-                                <p className="text-sm text-muted-foreground">Phone: {request.requester_phone}</p>
-                              </div>
-                              <Button
-                                size="sm"
-                                variant="outline"
-                                onClick={() => copyToClipboard(request.requester_phone)}
-                                className="flex items-center gap-2"
-                              >
-                                <Copy className="h-4 w-4" />
-                                Copy
-                              </Button>
-                            </div>
-                          </div>
-                        </div>
-                      ) : (
-                        <Button
-                          onClick={() => handleClaimRequest(request.id)}
-                          className="w-full bg-gradient-primary hover:opacity-90"
-                        >
-                          <Heart className="h-4 w-4 mr-2" />
-                          I Will Help
-                        </Button>
-                      )}
-                    </CardContent>
-                  </Card>
-                );
-              })}
-            </div>
+          {!isAvailable(profile) || isDeferred(profile.eligible_again_on) ? (
+            <Card className="border-0 shadow-soft">
+              <CardContent className="text-center py-12">
+                <MapIcon className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                <p className="text-lg text-muted-foreground">
+                  {!isAvailable(profile) ? "You're marked as unavailable" : "You're in your recovery period"}
+                </p>
+                <p className="text-sm text-muted-foreground mt-1">
+                  Requests will show up on the map again once you can donate
+                </p>
+              </CardContent>
+            </Card>
+          ) : (
+            <RequestsMap
+              user={user}
+              donor={profile}
+              myClaims={myClaims}
+              refreshToken={mapRefreshToken}
+              onClaim={handleClaimRequest}
+              onConfirmMyDonation={handleConfirmMyDonation}
+            />
           )}
         </TabsContent>
 
         <TabsContent value="my-requests" className="space-y-4">
           <h3 className="text-xl font-semibold text-foreground">My Blood Requests</h3>
+
+          <RecurringRequestsList key={requestListsKey} user={user} />
           
           {myRequests.filter(req => req.status === 'open').length === 0 ? (
             <Card className="border-0 shadow-soft">
@@ -428,7 +444,7 @@ export const Dashboard = ({ user }: DashboardProps) => {
           ) : (
             <div className="grid gap-4">
               {myRequests.filter(req => req.status === 'open').map((request) => {
-                const contactCount = contactRequestCounts[request.id] || 0;
+                const progress = requestProgress[request.id] || { helpers: 0, pledgedUnits: 0, confirmedUnits: 0 };
                 
                 return (
                   <Card key={request.id} className="border-0 shadow-soft">
@@ -442,29 +458,55 @@ export const Dashboard = ({ user }: DashboardProps) => {
                             <h4 className="font-semibold text-foreground">
                               Your Request
                             </h4>
-                            <Badge variant="secondary" className="bg-medical-red text-white">
-                              {request.blood_group}
-                            </Badge>
+                            <div className="flex items-center gap-2">
+                              <Badge variant="secondary" className="bg-medical-red text-white">
+                                {request.blood_group}
+                              </Badge>
+                              <Badge variant="secondary">
+                                {BLOOD_COMPONENT_LABELS[request.component]}
+                              </Badge>
+                              {request.recurring_request_id && (
+                                <Badge variant="outline" className="flex items-center gap-1">
+                                  <Repeat className="h-3 w-3" />
+                                  Recurring
+                                </Badge>
+                              )}
+                            </div>
                           </div>
                         </div>
-                        <div className="text-right">
+                        <div className="flex flex-col items-end gap-1">
+                          <UrgencyBadge request={request} />
                           <div className="flex items-center gap-2 text-sm text-muted-foreground mb-1">
                             <Clock className="h-4 w-4" />
                             {formatTimeRemaining(request.expires_at)}
                           </div>
-                          {contactCount > 0 && (
-                            <Badge variant="secondary" className="bg-success text-white">
-                              {contactCount} Helper{contactCount !== 1 ? 's' : ''}
-                            </Badge>
-                          )}
                         </div>
                       </div>
 
                       <div className="space-y-2 mb-4">
-                        <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                          <MapPin className="h-4 w-4" />
-                          {request.district} • {request.location_description}
+                        <div className="flex justify-between text-sm">
+                          <span className="font-medium text-foreground">
+                            {progress.confirmedUnits} of {request.units_needed} unit{request.units_needed !== 1 ? 's' : ''} donated
+                          </span>
+                          <span className="text-muted-foreground">
+                            {progress.pledgedUnits} pledged by {progress.helpers} helper{progress.helpers !== 1 ? 's' : ''}
+                          </span>
                         </div>
+                        <Progress
+                          value={Math.min(100, (progress.confirmedUnits / request.units_needed) * 100)}
+                          className="h-2"
+                        />
+                      </div>
+
+                      <div className="space-y-2 mb-4">
+                        {request.hospital ? (
+                          <HospitalCard hospital={request.hospital} note={request.location_description} />
+                        ) : (
+                          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                            <MapPin className="h-4 w-4" />
+                            {request.district} • {request.location_description}
+                          </div>
+                        )}
                         {request.message && (
                           <p className="text-sm text-foreground bg-soft-gray p-3 rounded-lg">
                             "{request.message}"
@@ -472,30 +514,126 @@ export const Dashboard = ({ user }: DashboardProps) => {
                         )}
                       </div>
 
-                      <Button
-                        onClick={() => handleCancelRequest(request.id)}
-                        variant="destructive"
-                        className="w-full"
-                      >
-                        <X className="h-4 w-4 mr-2" />
-                        Cancel My Request
-                      </Button>
+                      {isExpiringSoon(request.expires_at) && (
+                        <div className="flex items-center justify-between gap-3 bg-warning/10 border border-warning/20 rounded-lg p-3 mb-3">
+                          <p className="text-sm text-foreground">
+                            This request expires soon. Still need donors?
+                          </p>
+                          <Button size="sm" variant="outline" onClick={() => setExtendingRequest(request)}>
+                            <TimerReset className="h-4 w-4 mr-2" />
+                            Extend
+                          </Button>
+                        </div>
+                      )}
+
+                      <div className="flex gap-3 mb-3">
+                        <Button
+                          variant="outline"
+                          onClick={() => setFindingDonorsFor(request)}
+                          className="flex-1"
+                        >
+                          <Search className="h-4 w-4 mr-2" />
+                          Find Donors
+                        </Button>
+                        {/* Expiring requests already offer Extend in the banner above */}
+                        {!isExpiringSoon(request.expires_at) && (
+                          <Button
+                            variant="outline"
+                            onClick={() => setExtendingRequest(request)}
+                            className="flex-1"
+                          >
+                            <TimerReset className="h-4 w-4 mr-2" />
+                            Extend
+                          </Button>
+                        )}
+                      </div>
+
+                      <div className="flex gap-3">
+                        <Button
+                          onClick={() => setConfirmingRequest(request)}
+                          className="flex-1 bg-gradient-primary hover:opacity-90"
+                        >
+                          <CheckCircle className="h-4 w-4 mr-2" />
+                          Confirm Donations
+                        </Button>
+                        <Button
+                          onClick={() => setCancellingRequestId(request.id)}
+                          variant="destructive"
+                          className="flex-1"
+                        >
+                          <X className="h-4 w-4 mr-2" />
+                          Cancel My Request
+                        </Button>
+                      </div>
                     </CardContent>
                   </Card>
                 );
               })}
             </div>
           )}
+
+          <RequestHistoryList
+            key={requestListsKey}
+            user={user}
+            onExtend={setExtendingRequest}
+            onRepost={(request) => {
+              setRepostFrom(request);
+              setIsRequestDialogOpen(true);
+            }}
+          />
         </TabsContent>
       </Tabs>
 
       <RequestBloodDialog
         isOpen={isRequestDialogOpen}
-        onClose={() => setIsRequestDialogOpen(false)}
+        onClose={() => {
+          setIsRequestDialogOpen(false);
+          setRepostFrom(null);
+        }}
         user={user}
+        repostFrom={repostFrom}
+        onSuccess={() => {
+          fetchMyRequests();
+          fetchRequests();
+          setRequestListsKey(key => key + 1);
+        }}
+      />
+
+      <ConfirmDonationsDialog
+        isOpen={!!confirmingRequest}
+        onClose={() => setConfirmingRequest(null)}
+        request={confirmingRequest}
+        onSuccess={() => {
+          fetchMyRequests();
+          setRequestListsKey(key => key + 1);
+        }}
+      />
+
+      <FindDonorsDialog
+        isOpen={!!findingDonorsFor}
+        onClose={() => setFindingDonorsFor(null)}
+        request={findingDonorsFor}
+      />
+
+      <ExtendRequestDialog
+        isOpen={!!extendingRequest}
+        onClose={() => setExtendingRequest(null)}
+        request={extendingRequest}
+        onSuccess={() => {
+          fetchMyRequests();
+          fetchRequests();
+          setRequestListsKey(key => key + 1);
+        }}
+      />
+
+      <CancelRequestDialog
+        isOpen={!!cancellingRequestId}
+        onClose={() => setCancellingRequestId(null)}
+        requestId={cancellingRequestId}
         onSuccess={() => {
           fetchMyRequests();
           fetchRequests();
+          setRequestListsKey(key => key + 1);
         }}
       />
     </div>
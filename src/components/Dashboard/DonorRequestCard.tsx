@@ -0,0 +1,223 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Droplets, Clock, MapPin, Heart, AlertTriangle, CalendarClock, CheckCircle, MessageCircle } from "lucide-react";
+import { HospitalCard } from "@/components/Location/HospitalCard";
+import { PhoneRelayContact } from "./PhoneRelayContact";
+import { MessageThreadDialog } from "@/components/Chat/MessageThreadDialog";
+import type { Hospital } from "@/hooks/useHospitals";
+import { BLOOD_COMPONENT_LABELS, getMatchType, type BloodComponent, type BloodGroup } from "@/lib/bloodCompatibility";
+import { formatTimeRemaining, type RequestUrgency } from "@/lib/requestUrgency";
+import { distanceKm } from "@/lib/geolocation";
+
+export interface BloodRequest {
+  id: string;
+  requester_name: string;
+  requester_phone: string;
+  blood_group: BloodGroup;
+  component: BloodComponent;
+  units_needed: number;
+  urgency: RequestUrgency;
+  needed_by?: string | null;
+  district_id?: number | null;
+  district: string;
+  latitude?: number | null;
+  longitude?: number | null;
+  hospital?: Hospital | null;
+  location_description?: string;
+  message?: string;
+  created_at: string;
+  expires_at: string;
+  status: string;
+  requester_id: string;
+  recurring_request_id?: string | null;
+}
+
+export interface MyClaim {
+  id: string;
+  donor_confirmed_at: string | null;
+}
+
+export const UrgencyBadge = ({ request }: { request: Pick<BloodRequest, 'urgency' | 'needed_by'> }) => {
+  if (request.urgency === 'critical') {
+    return (
+      <Badge variant="destructive" className="flex items-center gap-1">
+        <AlertTriangle className="h-3 w-3" />
+        Critical
+      </Badge>
+    );
+  }
+  if (request.urgency === 'scheduled' && request.needed_by) {
+    return (
+      <Badge variant="outline" className="flex items-center gap-1">
+        <CalendarClock className="h-3 w-3" />
+        Needed {new Date(request.needed_by).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+      </Badge>
+    );
+  }
+  return null;
+};
+
+interface DonorRequestCardProps {
+  request: BloodRequest;
+  donor: {
+    user_id: string;
+    blood_group: BloodGroup;
+    latitude: number | null;
+    longitude: number | null;
+  };
+  myClaim?: MyClaim;
+  onClaim: (requestId: string, pledgedUnits: number) => void;
+  onConfirmMyDonation: (claimId: string) => void;
+}
+
+// A request as seen by a donor who can help, shared by the requests list and the map
+export const DonorRequestCard = ({ request, donor, myClaim, onClaim, onConfirmMyDonation }: DonorRequestCardProps) => {
+  const [pledgedUnits, setPledgedUnits] = useState(1);
+  const [isMessaging, setIsMessaging] = useState(false);
+  const matchType = getMatchType(donor.blood_group, request.blood_group, request.component);
+
+  return (
+    <Card className="border-0 shadow-soft hover:shadow-medium transition-shadow">
+      <CardContent className="p-6">
+        <div className="flex justify-between items-start mb-4">
+          <div className="flex items-center gap-3">
+            <div className="bg-medical-red p-2 rounded-lg">
+              <Droplets className="h-5 w-5 text-white" />
+            </div>
+            <div>
+              <h4 className="font-semibold text-foreground">
+                {request.requester_name}
+              </h4>
+              <div className="flex items-center gap-2">
+                <Badge variant="secondary" className="bg-medical-red text-white">
+                  {request.blood_group}
+                </Badge>
+                <Badge variant="secondary">
+                  {BLOOD_COMPONENT_LABELS[request.component]}
+                </Badge>
+                {matchType === 'exact' ? (
+                  <Badge variant="outline" className="border-success text-success">
+                    Exact match
+                  </Badge>
+                ) : (
+                  <Badge variant="outline">
+                    Compatible
+                  </Badge>
+                )}
+              </div>
+            </div>
+          </div>
+          <div className="flex flex-col items-end gap-1">
+            <UrgencyBadge request={request} />
+            <div className="flex items-center gap-2 text-sm text-muted-foreground mb-1">
+              <Clock className="h-4 w-4" />
+              {formatTimeRemaining(request.expires_at)}
+            </div>
+          </div>
+        </div>
+
+        <div className="space-y-2 mb-4">
+          {request.hospital && (
+            <HospitalCard hospital={request.hospital} note={request.location_description} />
+          )}
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <MapPin className="h-4 w-4" />
+            {request.district}{!request.hospital && ` • ${request.location_description}`}
+            {donor.latitude != null && request.latitude != null && (
+              <span>
+                • {distanceKm(donor, { latitude: request.latitude, longitude: request.longitude }).toFixed(1)} km away
+              </span>
+            )}
+          </div>
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Droplets className="h-4 w-4" />
+            {request.units_needed} unit{request.units_needed !== 1 ? 's' : ''} needed
+          </div>
+          {request.message && (
+            <p className="text-sm text-foreground bg-soft-gray p-3 rounded-lg">
+              "{request.message}"
+            </p>
+          )}
+        </div>
+
+        {myClaim ? (
+          <div className="space-y-3">
+            <div className="bg-success/10 border border-success/20 rounded-lg p-4">
+              <div className="flex items-center justify-between gap-2">
+                <div>
+                  <p className="font-medium text-success">Contact Information</p>
+                  <p className="text-sm text-muted-foreground">Reach {request.requester_name} through a private relay number.</p>
+                </div>
+                <PhoneRelayContact requestId={request.id} />
+              </div>
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => setIsMessaging(true)}
+              className="w-full"
+            >
+              <MessageCircle className="h-4 w-4 mr-2" />
+              Message {request.requester_name}
+            </Button>
+            {myClaim.donor_confirmed_at ? (
+              <p className="text-sm text-success flex items-center justify-center gap-1">
+                <CheckCircle className="h-4 w-4" />
+                You confirmed your donation
+              </p>
+            ) : (
+              <Button
+                variant="outline"
+                onClick={() => onConfirmMyDonation(myClaim.id)}
+                className="w-full"
+              >
+                <CheckCircle className="h-4 w-4 mr-2" />
+                I've Donated
+              </Button>
+            )}
+          </div>
+        ) : (
+          <div className="flex gap-3">
+            {request.units_needed > 1 && (
+              <Select
+                value={String(pledgedUnits)}
+                onValueChange={(value) => setPledgedUnits(Number(value))}
+              >
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Array.from({ length: request.units_needed }, (_, i) => i + 1).map((units) => (
+                    <SelectItem key={units} value={String(units)}>
+                      {units} unit{units !== 1 ? 's' : ''}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Button
+              onClick={() => onClaim(request.id, pledgedUnits)}
+              className="flex-1 bg-gradient-primary hover:opacity-90"
+            >
+              <Heart className="h-4 w-4 mr-2" />
+              I Will Help
+            </Button>
+          </div>
+        )}
+      </CardContent>
+
+      {myClaim && (
+        <MessageThreadDialog
+          isOpen={isMessaging}
+          onClose={() => setIsMessaging(false)}
+          requestId={request.id}
+          donorId={donor.user_id}
+          viewerRole="donor"
+          otherPartyName={request.requester_name}
+        />
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,168 @@
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { TimerReset } from "lucide-react";
+import {
+  EXTENSION_HOURS,
+  MAX_REQUEST_LIFETIME_DAYS,
+  canExtendBy,
+  getExtendedExpiry,
+} from "@/lib/requestUrgency";
+
+export interface ExtendableRequest {
+  id: string;
+  created_at: string;
+  expires_at: string;
+  needed_by?: string | null;
+}
+
+interface ExtendRequestDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  request: ExtendableRequest | null;
+  onSuccess: () => void;
+}
+
+const formatExpiry = (date: Date) =>
+  date.toLocaleString(undefined, { weekday: 'short', hour: 'numeric', minute: '2-digit' });
+
+export const ExtendRequestDialog = ({ isOpen, onClose, request, onSuccess }: ExtendRequestDialogProps) => {
+  const [hours, setHours] = useState<number>(24);
+  const [notifyDonors, setNotifyDonors] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const { toast } = useToast();
+
+  const handleClose = () => {
+    setHours(24);
+    setNotifyDonors(false);
+    onClose();
+  };
+
+  const handleExtendRequest = async () => {
+    setIsLoading(true);
+    try {
+      const { data: expiresAt, error } = await supabase.rpc('extend_request', {
+        target_request_id: request.id,
+        hours,
+        notify_donors: notifyDonors
+      });
+
+      if (error) throw error;
+
+      // Nudge donors who have not offered to help yet, the function checks the extension asked for it
+      if (notifyDonors) {
+        try {
+          const { error: notificationError } = await supabase.functions.invoke('send-blood-request-notifications', {
+            body: { requestId: request.id, type: 'request_extended' }
+          });
+
+          if (notificationError) {
+            console.error('Failed to send still-needed notifications:', notificationError);
+          }
+        } catch (notificationError) {
+          console.error('Error sending still-needed notifications:', notificationError);
+        }
+      }
+
+      toast({
+        title: "Request Extended",
+        description: `Your request is open to donors until ${formatExpiry(new Date(expiresAt))}.`,
+      });
+
+      onSuccess();
+      handleClose();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        // Limits are enforced by extend_request with a readable message
+        description: error?.message?.includes('at most')
+          ? error.message
+          : "Failed to extend request.",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const availableHours = request ? EXTENSION_HOURS.filter(option => canExtendBy(request, option)) : [];
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Extend Request</DialogTitle>
+          <DialogDescription>
+            Keep your request open to donors for longer. Requests can stay open for up to {MAX_REQUEST_LIFETIME_DAYS} days after they are posted or needed.
+          </DialogDescription>
+        </DialogHeader>
+
+        {request && (availableHours.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            This request has reached the {MAX_REQUEST_LIFETIME_DAYS} day limit. Post a new request if blood is still needed.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <RadioGroup value={String(hours)} onValueChange={(value) => setHours(Number(value))}>
+              {EXTENSION_HOURS.map((option) => (
+                <div key={option} className="flex items-center space-x-2">
+                  <RadioGroupItem
+                    value={String(option)}
+                    id={`extend-${option}`}
+                    disabled={!availableHours.includes(option)}
+                  />
+                  <Label
+                    htmlFor={`extend-${option}`}
+                    className={`font-normal ${availableHours.includes(option) ? '' : 'text-muted-foreground'}`}
+                  >
+                    {option} hours • until {formatExpiry(getExtendedExpiry(request, option))}
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+
+            <div className="flex items-start justify-between gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="notifyDonors">Remind donors</Label>
+                <p className="text-sm text-muted-foreground">
+                  Send a "still needed" notification to matching donors who have not offered to help yet.
+                </p>
+              </div>
+              <Switch id="notifyDonors" checked={notifyDonors} onCheckedChange={setNotifyDonors} />
+            </div>
+          </div>
+        ))}
+
+        <div className="flex gap-3 pt-4">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={handleClose}
+            className="flex-1"
+          >
+            Close
+          </Button>
+          <Button
+            onClick={handleExtendRequest}
+            disabled={isLoading || !availableHours.includes(hours as typeof EXTENSION_HOURS[number])}
+            className="flex-1 bg-gradient-primary hover:opacity-90"
+          >
+            <TimerReset className="h-4 w-4 mr-2" />
+            {isLoading ? "Extending..." : `Extend ${hours}h`}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,90 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Copy, Phone, ShieldCheck } from "lucide-react";
+
+interface PhoneRelay {
+  proxyNumber: string;
+  expiresAt: string;
+}
+
+interface PhoneRelayContactProps {
+  requestId: string;
+  // Set when the requester is reaching one of their donors, donors leave it out to reach the requester
+  donorId?: string;
+  compact?: boolean;
+}
+
+// A masked number that forwards to the other party until the request closes, so real phone numbers stay private
+export const PhoneRelayContact = ({ requestId, donorId, compact = false }: PhoneRelayContactProps) => {
+  const [relay, setRelay] = useState<PhoneRelay | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const { toast } = useToast();
+
+  const fetchRelay = async () => {
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('phone-relay', {
+        body: { requestId, donorId }
+      });
+
+      if (error) throw error;
+      setRelay(data.relay);
+    } catch (error) {
+      console.error('Error fetching phone relay:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Could not get a contact number. The request may have closed.",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const copyToClipboard = (text: string) => {
+    navigator.clipboard.writeText(text);
+    toast({
+      title: "Copied!",
+      description: "Relay number copied to clipboard.",
+    });
+  };
+
+  if (!relay) {
+    return (
+      <Button
+        size="sm"
+        variant="outline"
+        onClick={fetchRelay}
+        disabled={isLoading}
+        className="flex items-center gap-2"
+      >
+        <Phone className="h-4 w-4" />
+        {isLoading ? "Connecting..." : compact ? "Call" : "Get Contact Number"}
+      </Button>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <div className={compact ? "text-right" : undefined}>
+        <p className="text-sm font-medium text-foreground">{relay.proxyNumber}</p>
+        {!compact && (
+          <p className="text-xs text-muted-foreground flex items-center gap-1">
+            <ShieldCheck className="h-3 w-3" />
+            Private relay, works until {new Date(relay.expiresAt).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}
+          </p>
+        )}
+      </div>
+      <Button size="sm" variant="outline" asChild>
+        <a href={`tel:${relay.proxyNumber}`} aria-label="Call">
+          <Phone className="h-4 w-4" />
+        </a>
+      </Button>
+      <Button size="sm" variant="outline" onClick={() => copyToClipboard(relay.proxyNumber)} aria-label="Copy">
+        <Copy className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+};
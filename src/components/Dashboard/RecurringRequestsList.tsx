@@ -0,0 +1,153 @@
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import type { User } from "@supabase/supabase-js";
+import { Pause, Play, Repeat, Square, MapPin } from "lucide-react";
+import { BLOOD_COMPONENT_LABELS, type BloodComponent, type BloodGroup } from "@/lib/bloodCompatibility";
+
+interface RecurringRequest {
+  id: string;
+  blood_group: BloodGroup;
+  component: BloodComponent;
+  units_needed: number;
+  district: string;
+  location_description?: string | null;
+  cadence_days: number;
+  next_needed_at: string;
+  status: 'active' | 'paused' | 'ended';
+}
+
+interface RecurringRequestsListProps {
+  user: User;
+}
+
+export const RecurringRequestsList = ({ user }: RecurringRequestsListProps) => {
+  const [series, setSeries] = useState<RecurringRequest[]>([]);
+  const { toast } = useToast();
+
+  const fetchSeries = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('recurring_requests')
+        .select('*')
+        .eq('requester_id', user.id)
+        .neq('status', 'ended')
+        .order('next_needed_at', { ascending: true });
+
+      if (error) throw error;
+      setSeries((data || []) as RecurringRequest[]);
+    } catch (error) {
+      console.error('Error fetching recurring requests:', error);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (user) {
+      fetchSeries();
+    }
+  }, [user, fetchSeries]);
+
+  const updateStatus = async (seriesId: string, status: RecurringRequest['status']) => {
+    try {
+      const { error } = await supabase
+        .from('recurring_requests')
+        .update({ status })
+        .eq('id', seriesId);
+
+      if (error) throw error;
+
+      toast({
+        title: status === 'ended' ? "Series Ended" : status === 'paused' ? "Series Paused" : "Series Resumed",
+        description: status === 'ended'
+          ? "No more requests will be posted for this series."
+          : status === 'paused'
+            ? "Requests will not be posted until you resume the series."
+            : "The next request will be posted automatically.",
+      });
+
+      fetchSeries();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to update recurring request.",
+      });
+    }
+  };
+
+  if (series.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3">
+      <h4 className="font-semibold text-foreground flex items-center gap-2">
+        <Repeat className="h-4 w-4" />
+        Recurring Requests
+      </h4>
+      {series.map((item) => (
+        <Card key={item.id} className="border-0 shadow-soft">
+          <CardContent className="p-4 space-y-3">
+            <div className="flex justify-between items-start">
+              <div className="flex items-center gap-2">
+                <Badge variant="secondary" className="bg-medical-red text-white">
+                  {item.blood_group}
+                </Badge>
+                <Badge variant="secondary">
+                  {BLOOD_COMPONENT_LABELS[item.component]}
+                </Badge>
+                <span className="text-sm text-muted-foreground">
+                  {item.units_needed} unit{item.units_needed !== 1 ? 's' : ''} every {item.cadence_days / 7} weeks
+                </span>
+              </div>
+              <Badge variant={item.status === 'active' ? 'default' : 'outline'}>
+                {item.status}
+              </Badge>
+            </div>
+
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <MapPin className="h-4 w-4" />
+              {item.district} • {item.location_description}
+            </div>
+
+            {item.status === 'active' && (
+              <p className="text-sm text-foreground">
+                Next needed on {new Date(item.next_needed_at).toLocaleDateString(undefined, {
+                  weekday: 'short',
+                  month: 'short',
+                  day: 'numeric'
+                })}
+              </p>
+            )}
+
+            <div className="flex gap-2">
+              {item.status === 'active' ? (
+                <Button size="sm" variant="outline" onClick={() => updateStatus(item.id, 'paused')}>
+                  <Pause className="h-4 w-4 mr-2" />
+                  Pause
+                </Button>
+              ) : (
+                <Button size="sm" variant="outline" onClick={() => updateStatus(item.id, 'active')}>
+                  <Play className="h-4 w-4 mr-2" />
+                  Resume
+                </Button>
+              )}
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => updateStatus(item.id, 'ended')}
+                className="text-muted-foreground hover:text-destructive"
+              >
+                <Square className="h-4 w-4 mr-2" />
+                End Series
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+};
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useForm } from "react-hook-form";
 import {
   Dialog,
@@ -11,53 +11,250 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Calendar } from "@/components/ui/calendar";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
-import { Droplets } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { addDays, format, setHours, setMinutes, startOfToday } from "date-fns";
+import { CalendarIcon, Droplets, LocateFixed } from "lucide-react";
+import { BLOOD_COMPONENTS, BLOOD_COMPONENT_LABELS, type BloodComponent, type BloodGroup } from "@/lib/bloodCompatibility";
+import { getCurrentPosition } from "@/lib/geolocation";
+import { DistrictCombobox } from "@/components/Location/DistrictCombobox";
+import { HospitalCombobox } from "@/components/Location/HospitalCombobox";
+import type { DistrictOption } from "@/hooks/useDistricts";
+import type { Hospital } from "@/hooks/useHospitals";
+import { REQUEST_URGENCIES, URGENCY_ACTIVE_WINDOW, URGENCY_LABELS, type RequestUrgency } from "@/lib/requestUrgency";
+
+// Fields copied from a past request when it is reposted
+export interface RepostableRequest {
+  blood_group: BloodGroup;
+  component: BloodComponent;
+  units_needed: number;
+  urgency: RequestUrgency;
+  requester_name: string;
+  requester_phone: string;
+  district: string;
+  state: string;
+  district_id?: number | null;
+  hospital_id?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  location_description?: string | null;
+  message?: string | null;
+}
 
 interface RequestBloodDialogProps {
   isOpen: boolean;
   onClose: () => void;
   user: any;
   onSuccess?: () => void;
+  repostFrom?: RepostableRequest | null;
 }
 
 interface BloodRequestForm {
   bloodGroup: string;
+  component: BloodComponent;
+  unitsNeeded: number;
+  urgency: RequestUrgency;
+  neededOn?: Date;
+  neededTime: string;
+  repeatEveryDays: string;
   requesterName: string;
   requesterPhone: string;
+  districtId: number | null;
   district: string;
   state: string;
+  hospitalId: string | null;
+  latitude: number | null;
+  longitude: number | null;
   locationDescription: string;
   message: string;
 }
 
-export const RequestBloodDialog = ({ isOpen, onClose, user, onSuccess }: RequestBloodDialogProps) => {
+const defaultFormValues: Partial<BloodRequestForm> = {
+  component: 'whole_blood',
+  unitsNeeded: 1,
+  urgency: 'within_24h',
+  neededTime: '09:00',
+  repeatEveryDays: 'none',
+  districtId: null,
+  hospitalId: null,
+  latitude: null,
+  longitude: null,
+};
+
+export const RequestBloodDialog = ({ isOpen, onClose, user, onSuccess, repostFrom }: RequestBloodDialogProps) => {
   const [isLoading, setIsLoading] = useState(false);
+  const [isLocating, setIsLocating] = useState(false);
   const { toast } = useToast();
-  const { register, handleSubmit, setValue, reset, formState: { errors } } = useForm<BloodRequestForm>();
+  const { register, handleSubmit, setValue, setError, clearErrors, watch, reset, formState: { errors } } = useForm<BloodRequestForm>({
+    defaultValues: defaultFormValues
+  });
+  const urgency = watch('urgency');
+  const neededOn = watch('neededOn');
+  const latitude = watch('latitude');
+  const districtId = watch('districtId');
+  const hospitalId = watch('hospitalId');
+
+  // Pre-fill the form when reposting, the scheduled date is left for the requester to pick again
+  useEffect(() => {
+    if (isOpen && repostFrom) {
+      reset({
+        ...defaultFormValues,
+        bloodGroup: repostFrom.blood_group,
+        component: repostFrom.component,
+        unitsNeeded: repostFrom.units_needed,
+        urgency: repostFrom.urgency,
+        requesterName: repostFrom.requester_name,
+        requesterPhone: repostFrom.requester_phone,
+        // Requests posted before the district catalogue have no ID and must be picked again
+        districtId: repostFrom.district_id ?? null,
+        district: repostFrom.district,
+        state: repostFrom.state,
+        hospitalId: repostFrom.hospital_id ?? null,
+        latitude: repostFrom.latitude ?? null,
+        longitude: repostFrom.longitude ?? null,
+        locationDescription: repostFrom.location_description || '',
+        message: repostFrom.message || '',
+      });
+    }
+  }, [isOpen, repostFrom, reset]);
+
+  // Combine the picked day and time into the moment blood is needed
+  const getNeededBy = (data: BloodRequestForm) => {
+    if (!data.neededOn) return null;
+    const [hours, minutes] = data.neededTime.split(':').map(Number);
+    return setMinutes(setHours(data.neededOn, hours), minutes);
+  };
+
+  const captureCurrentLocation = async () => {
+    setIsLocating(true);
+    try {
+      const position = await getCurrentPosition();
+      setValue('latitude', position.latitude);
+      setValue('longitude', position.longitude);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Location unavailable",
+        description: error instanceof Error ? error.message : "Unable to get your location",
+      });
+    } finally {
+      setIsLocating(false);
+    }
+  };
 
   const bloodGroups = ['O+', 'O-', 'A+', 'A-', 'B+', 'B-', 'AB+', 'AB-'];
+  const repeatOptions = [
+    { value: 'none', label: "Don't repeat" },
+    { value: '14', label: 'Every 2 weeks' },
+    { value: '21', label: 'Every 3 weeks' },
+    { value: '28', label: 'Every 4 weeks' },
+  ];
+
+  const handleDistrictChange = (district: DistrictOption) => {
+    setValue('districtId', district.id);
+    setValue('district', district.name);
+    setValue('state', district.state);
+    if (district.id !== districtId) {
+      setValue('hospitalId', null);
+    }
+    clearErrors('districtId');
+  };
+
+  // Listed hospitals supply their own coordinates so nearby donors across district borders see the request
+  const handleHospitalChange = (hospital: Hospital | null) => {
+    setValue('hospitalId', hospital?.id ?? null);
+    if (hospital?.latitude != null) {
+      setValue('latitude', hospital.latitude);
+      setValue('longitude', hospital.longitude);
+    }
+  };
 
   const onSubmit = async (data: BloodRequestForm) => {
+    if (!data.districtId) {
+      setError('districtId', { message: "Select the district where blood is needed" });
+      return;
+    }
+
+    const neededBy = data.urgency === 'scheduled' ? getNeededBy(data) : null;
+    if (data.urgency === 'scheduled' && (!neededBy || neededBy <= new Date())) {
+      setError('neededOn', { message: "Pick a future date and time for scheduled requests" });
+      return;
+    }
+
     setIsLoading(true);
     try {
+      // Recurring series are saved as a template, the first occurrence is posted right away
+      let recurringRequestId: string | null = null;
+      if (data.urgency === 'scheduled' && neededBy && data.repeatEveryDays !== 'none') {
+        const cadenceDays = Number(data.repeatEveryDays);
+        const { data: template, error: templateError } = await supabase
+          .from('recurring_requests')
+          .insert({
+            requester_id: user.id,
+            blood_group: data.bloodGroup as BloodGroup,
+            component: data.component,
+            units_needed: data.unitsNeeded,
+            requester_name: data.requesterName,
+            requester_phone: data.requesterPhone,
+            district_id: data.districtId,
+            district: data.district,
+            state: data.state,
+            latitude: data.latitude,
+            longitude: data.longitude,
+            hospital_id: data.hospitalId,
+            location_description: data.locationDescription,
+            message: data.message,
+            cadence_days: cadenceDays,
+            next_needed_at: addDays(neededBy, cadenceDays).toISOString(),
+          })
+          .select('id')
+          .single();
+
+        if (templateError) throw templateError;
+        recurringRequestId = template.id;
+      }
+
       const { data: newRequest, error } = await supabase
         .from('requests')
         .insert({
           requester_id: user.id,
           blood_group: data.bloodGroup as any,
+          component: data.component,
+          units_needed: data.unitsNeeded,
+          urgency: data.urgency,
+          needed_by: neededBy?.toISOString() ?? null,
+          recurring_request_id: recurringRequestId,
           requester_name: data.requesterName,
           requester_phone: data.requesterPhone,
+          district_id: data.districtId,
           district: data.district,
           state: data.state,
+          latitude: data.latitude,
+          longitude: data.longitude,
+          hospital_id: data.hospitalId,
           location_description: data.locationDescription,
           message: data.message,
         })
-        .select()
+        .select('id')
         .single();
 
-      if (error) throw error;
+      if (error) {
+        // Without its first occurrence the series would start unseen, so drop the template again
+        if (recurringRequestId) {
+          const { error: cleanupError } = await supabase
+            .from('recurring_requests')
+            .delete()
+            .eq('id', recurringRequestId);
+
+          if (cleanupError) {
+            console.error('Failed to remove recurring template:', cleanupError);
+          }
+        }
+        throw error;
+      }
 
       // Send notifications to eligible users
       try {
@@ -76,10 +273,10 @@ export const RequestBloodDialog = ({ isOpen, onClose, user, onSuccess }: Request
 
       toast({
         title: "Blood Request Submitted!",
-        description: "Your request has been posted and donors will be notified. The request will be active for 24 hours.",
+        description: `Your request has been posted and donors will be notified. The request will be active ${data.urgency === 'scheduled' ? '' : 'for '}${URGENCY_ACTIVE_WINDOW[data.urgency]}.`,
       });
 
-      reset();
+      reset(defaultFormValues);
       onClose();
       onSuccess?.();
     } catch (error: any) {
@@ -108,7 +305,7 @@ export const RequestBloodDialog = ({ isOpen, onClose, user, onSuccess }: Request
         <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
           <div className="space-y-2">
             <Label htmlFor="bloodGroup">Required Blood Group</Label>
-            <Select onValueChange={(value) => setValue("bloodGroup", value)}>
+            <Select value={watch("bloodGroup")} onValueChange={(value) => setValue("bloodGroup", value)}>
               <SelectTrigger>
                 <SelectValue placeholder="Select blood group needed" />
               </SelectTrigger>
@@ -125,6 +322,134 @@ export const RequestBloodDialog = ({ isOpen, onClose, user, onSuccess }: Request
             )}
           </div>
 
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="component">Component Needed</Label>
+              <Select
+                value={watch("component")}
+                onValueChange={(value) => setValue("component", value as BloodComponent)}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select component needed" />
+                </SelectTrigger>
+                <SelectContent>
+                  {BLOOD_COMPONENTS.map((component) => (
+                    <SelectItem key={component} value={component}>
+                      {BLOOD_COMPONENT_LABELS[component]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="unitsNeeded">Units Needed</Label>
+              <Input
+                id="unitsNeeded"
+                type="number"
+                min={1}
+                max={10}
+                {...register("unitsNeeded", {
+                  valueAsNumber: true,
+                  required: "Units needed is required",
+                  min: { value: 1, message: "At least 1 unit is required" },
+                  max: { value: 10, message: "At most 10 units per request" },
+                })}
+              />
+              {errors.unitsNeeded && (
+                <p className="text-sm text-destructive">{errors.unitsNeeded.message}</p>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="urgency">Urgency</Label>
+            <Select
+              value={urgency}
+              onValueChange={(value) => setValue("urgency", value as RequestUrgency)}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="How soon is blood needed?" />
+              </SelectTrigger>
+              <SelectContent>
+                {REQUEST_URGENCIES.map((level) => (
+                  <SelectItem key={level} value={level}>
+                    {URGENCY_LABELS[level]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {urgency === 'scheduled' && (
+            <div className="space-y-2">
+              <Label htmlFor="neededTime">Needed On</Label>
+              <div className="flex gap-3">
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      className={cn("flex-1 justify-start text-left font-normal", !neededOn && "text-muted-foreground")}
+                    >
+                      <CalendarIcon className="h-4 w-4 mr-2" />
+                      {neededOn ? format(neededOn, "PPP") : "Pick a date"}
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-auto p-0" align="start">
+                    <Calendar
+                      mode="single"
+                      selected={neededOn}
+                      onSelect={(date) => {
+                        setValue("neededOn", date);
+                        clearErrors("neededOn");
+                      }}
+                      disabled={(date) => date < startOfToday() || date > addDays(startOfToday(), 30)}
+                      initialFocus
+                      className="pointer-events-auto"
+                    />
+                  </PopoverContent>
+                </Popover>
+                <Input
+                  id="neededTime"
+                  type="time"
+                  className="w-32"
+                  {...register("neededTime", { required: urgency === 'scheduled' })}
+                />
+              </div>
+              {errors.neededOn && (
+                <p className="text-sm text-destructive">{errors.neededOn.message}</p>
+              )}
+              <p className="text-xs text-muted-foreground">
+                Your request stays visible until this date and donors who offer to help get a reminder the day before.
+              </p>
+            </div>
+          )}
+
+          {urgency === 'scheduled' && (
+            <div className="space-y-2">
+              <Label htmlFor="repeatEveryDays">Repeat</Label>
+              <Select
+                value={watch("repeatEveryDays")}
+                onValueChange={(value) => setValue("repeatEveryDays", value)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {repeatOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                For regular transfusions. The next request is posted automatically 3 days before it is needed.
+              </p>
+            </div>
+          )}
+
           <div className="grid grid-cols-2 gap-3">
             <div className="space-y-2">
               <Label htmlFor="requesterName">Requester Name</Label>
@@ -151,39 +476,52 @@ export const RequestBloodDialog = ({ isOpen, onClose, user, onSuccess }: Request
             </div>
           </div>
 
-          <div className="grid grid-cols-2 gap-3">
-            <div className="space-y-2">
-              <Label htmlFor="district">District</Label>
-              <Input
-                id="district"
-                placeholder="District"
-                {...register("district", { required: "District is required" })}
-              />
-              {errors.district && (
-                <p className="text-sm text-destructive">{errors.district.message}</p>
-              )}
-            </div>
+          <div className="space-y-2">
+            <Label htmlFor="districtId">District</Label>
+            <DistrictCombobox
+              id="districtId"
+              value={districtId}
+              onChange={handleDistrictChange}
+            />
+            {errors.districtId && (
+              <p className="text-sm text-destructive">{errors.districtId.message}</p>
+            )}
+          </div>
 
-            <div className="space-y-2">
-              <Label htmlFor="state">State</Label>
-              <Input
-                id="state"
-                placeholder="State"
-                {...register("state", { required: "State is required" })}
-              />
-              {errors.state && (
-                <p className="text-sm text-destructive">{errors.state.message}</p>
-              )}
-            </div>
+          <div className="space-y-2">
+            <Label htmlFor="hospitalId">Hospital / Blood Bank</Label>
+            <HospitalCombobox
+              id="hospitalId"
+              districtId={districtId}
+              value={hospitalId}
+              onChange={handleHospitalChange}
+            />
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="locationDescription">Hospital/Location Description</Label>
+            <Label htmlFor="locationDescription">
+              {hospitalId ? "Ward / Bed Details (Optional)" : "Hospital/Location Description"}
+            </Label>
             <Input
               id="locationDescription"
-              placeholder="Hospital name, address or landmarks"
+              placeholder={hospitalId ? "Ward, bed number or department" : "Hospital name, address or landmarks"}
               {...register("locationDescription")}
             />
+            <div className="flex items-center gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={captureCurrentLocation}
+                disabled={isLocating}
+              >
+                <LocateFixed className="h-4 w-4 mr-2" />
+                {isLocating ? "Locating..." : latitude != null ? "Update Location" : "Use My Location"}
+              </Button>
+              <span className="text-xs text-muted-foreground">
+                {latitude != null ? "Location attached, nearby donors across district borders will see this request." : "Optional, reaches donors near you in other districts."}
+              </span>
+            </div>
           </div>
 
           <div className="space-y-2">
@@ -0,0 +1,233 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import type { User } from "@supabase/supabase-js";
+import { ChevronDown, ChevronUp, History, MapPin, MessageCircle, RotateCcw, TimerReset, Users } from "lucide-react";
+import { BLOOD_COMPONENT_LABELS } from "@/lib/bloodCompatibility";
+import { CANCELLATION_REASON_LABELS } from "@/lib/requestCancellation";
+import type { RepostableRequest } from "./RequestBloodDialog";
+import type { ExtendableRequest } from "./ExtendRequestDialog";
+
+type PastRequest = Database["public"]["Tables"]["requests"]["Row"];
+type RequestClaim = Database["public"]["Functions"]["get_request_claims"]["Returns"][number];
+
+interface ContactRequestSummary {
+  id: string;
+  status: string;
+  donor_name?: string;
+}
+
+interface RequestOutcome {
+  claims: RequestClaim[];
+  contactRequests: ContactRequestSummary[];
+}
+
+interface RequestHistoryListProps {
+  user: User;
+  onRepost: (request: RepostableRequest) => void;
+  onExtend: (request: ExtendableRequest) => void;
+}
+
+// Open requests past their expiry have not been swept by expire_old_requests yet
+const getFinalStatus = (request: PastRequest) =>
+  request.status === 'open' && new Date(request.expires_at) <= new Date() ? 'expired' : request.status;
+
+export const RequestHistoryList = ({ user, onRepost, onExtend }: RequestHistoryListProps) => {
+  const [pastRequests, setPastRequests] = useState<PastRequest[]>([]);
+  const [outcomes, setOutcomes] = useState<{[requestId: string]: RequestOutcome}>({});
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (user) {
+      fetchPastRequests();
+    }
+  }, [user]);
+
+  const fetchPastRequests = async () => {
+    try {
+      const { data, error } = await supabase
+        .rpc('get_my_requests')
+        .or(`status.neq.open,expires_at.lte.${new Date().toISOString()}`)
+        .order('created_at', { ascending: false })
+        .limit(20);
+
+      if (error) throw error;
+      setPastRequests(data || []);
+    } catch (error) {
+      console.error('Error fetching past requests:', error);
+    }
+  };
+
+  const fetchOutcome = async (requestId: string) => {
+    try {
+      const [claimsResult, contactResult] = await Promise.all([
+        supabase.rpc('get_request_claims', { target_request_id: requestId }),
+        supabase
+          .from('contact_requests')
+          .select('id, status, donor_id')
+          .eq('request_id', requestId)
+          .eq('requester_id', user.id),
+      ]);
+
+      if (claimsResult.error) throw claimsResult.error;
+      if (contactResult.error) throw contactResult.error;
+
+      // Donor names are only visible for donors in the requester's district
+      const donorIds = (contactResult.data || []).map(contact => contact.donor_id);
+      const { data: donorProfiles } = donorIds.length > 0
+        ? await supabase.from('profiles').select('user_id, full_name').in('user_id', donorIds)
+        : { data: [] };
+
+      setOutcomes(prev => ({
+        ...prev,
+        [requestId]: {
+          claims: claimsResult.data || [],
+          contactRequests: (contactResult.data || []).map(contact => ({
+            id: contact.id,
+            status: contact.status,
+            donor_name: donorProfiles?.find(profile => profile.user_id === contact.donor_id)?.full_name,
+          })),
+        },
+      }));
+    } catch (error) {
+      console.error('Error fetching request outcome:', error);
+    }
+  };
+
+  const toggleExpanded = (requestId: string) => {
+    if (expandedId === requestId) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(requestId);
+    if (!outcomes[requestId]) {
+      fetchOutcome(requestId);
+    }
+  };
+
+  const renderStatusBadge = (request: PastRequest) => {
+    const status = getFinalStatus(request);
+    if (status === 'fulfilled') {
+      return <Badge variant="outline" className="border-success text-success">Fulfilled</Badge>;
+    }
+    if (status === 'cancelled') {
+      return (
+        <Badge variant="outline">
+          Cancelled{request.cancellation_reason ? ` • ${CANCELLATION_REASON_LABELS[request.cancellation_reason]}` : ''}
+        </Badge>
+      );
+    }
+    return <Badge variant="secondary">Expired</Badge>;
+  };
+
+  if (pastRequests.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3">
+      <h4 className="font-semibold text-foreground flex items-center gap-2">
+        <History className="h-4 w-4" />
+        Past Requests
+      </h4>
+      {pastRequests.map((request) => {
+        const outcome = outcomes[request.id];
+        const isExpanded = expandedId === request.id;
+
+        return (
+          <Card key={request.id} className="border-0 shadow-soft">
+            <CardContent className="p-4 space-y-3">
+              <div className="flex justify-between items-start">
+                <div className="flex items-center gap-2">
+                  <Badge variant="secondary" className="bg-medical-red text-white">
+                    {request.blood_group}
+                  </Badge>
+                  <Badge variant="secondary">
+                    {BLOOD_COMPONENT_LABELS[request.component]}
+                  </Badge>
+                  <span className="text-sm text-muted-foreground">
+                    {new Date(request.created_at).toLocaleDateString(undefined, {
+                      year: 'numeric',
+                      month: 'short',
+                      day: 'numeric'
+                    })}
+                  </span>
+                </div>
+                {renderStatusBadge(request)}
+              </div>
+
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <MapPin className="h-4 w-4" />
+                {request.district} • {request.location_description}
+              </div>
+
+              {isExpanded && outcome && (
+                <div className="space-y-3 border-t pt-3">
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium text-foreground flex items-center gap-2">
+                      <Users className="h-4 w-4" />
+                      Helpers ({outcome.claims.length})
+                    </p>
+                    {outcome.claims.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">No donors offered to help.</p>
+                    ) : (
+                      outcome.claims.map((claim) => (
+                        <div key={claim.claim_id} className="flex justify-between text-sm">
+                          <span className="text-foreground">{claim.donor_name}</span>
+                          <span className="text-muted-foreground">
+                            {claim.requester_confirmed_at
+                              ? claim.confirmed_units > 0
+                                ? `Donated ${claim.confirmed_units} unit${claim.confirmed_units !== 1 ? 's' : ''}`
+                                : 'Did not donate'
+                              : `Pledged ${claim.pledged_units} unit${claim.pledged_units !== 1 ? 's' : ''}`}
+                          </span>
+                        </div>
+                      ))
+                    )}
+                  </div>
+
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium text-foreground flex items-center gap-2">
+                      <MessageCircle className="h-4 w-4" />
+                      Contact Requests ({outcome.contactRequests.length})
+                    </p>
+                    {outcome.contactRequests.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">No contact requests were sent.</p>
+                    ) : (
+                      outcome.contactRequests.map((contact) => (
+                        <div key={contact.id} className="flex justify-between text-sm">
+                          <span className="text-foreground">{contact.donor_name || 'Donor'}</span>
+                          <span className="text-muted-foreground capitalize">{contact.status}</span>
+                        </div>
+                      ))
+                    )}
+                  </div>
+                </div>
+              )}
+
+              <div className="flex gap-2">
+                <Button size="sm" variant="outline" onClick={() => toggleExpanded(request.id)}>
+                  {isExpanded ? <ChevronUp className="h-4 w-4 mr-2" /> : <ChevronDown className="h-4 w-4 mr-2" />}
+                  {isExpanded ? 'Hide Details' : 'Details'}
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => onRepost(request)}>
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  Repost
+                </Button>
+                {getFinalStatus(request) === 'expired' && (
+                  <Button size="sm" variant="outline" onClick={() => onExtend(request)}>
+                    <TimerReset className="h-4 w-4 mr-2" />
+                    Extend
+                  </Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,261 @@
+import { useState, useEffect, useMemo, useRef } from "react";
+import { MapContainer, Marker, TileLayer, useMap, useMapEvents } from "react-leaflet";
+import L from "leaflet";
+import Supercluster from "supercluster";
+import "leaflet/dist/leaflet.css";
+import { Card, CardContent } from "@/components/ui/card";
+import { supabase } from "@/integrations/supabase/client";
+import type { User } from "@supabase/supabase-js";
+import { MapPin } from "lucide-react";
+import { DonorRequestCard, type BloodRequest, type MyClaim } from "./DonorRequestCard";
+import type { BloodGroup } from "@/lib/bloodCompatibility";
+import { compareByUrgency, URGENCY_COLORS, URGENCY_LABELS, URGENCY_RANK, REQUEST_URGENCIES, type RequestUrgency } from "@/lib/requestUrgency";
+import { attachHospitals } from "@/lib/hospitals";
+import { MAP_MAX_ZOOM, MAP_TILE_ATTRIBUTION, MAP_TILE_URL } from "@/lib/mapTiles";
+
+interface PointProperties {
+  requestId: string;
+  bloodGroup: BloodGroup;
+  urgencyRank: number;
+}
+
+interface ClusterProperties {
+  urgencyRank: number;
+}
+
+type BBox = [number, number, number, number];
+
+// Centre of India, used until the donor or a request gives the map somewhere better to look
+const DEFAULT_CENTER: [number, number] = [22.5, 79];
+const DEFAULT_ZOOM = 5;
+const NEARBY_ZOOM = 11;
+
+const URGENCY_BY_RANK = Object.fromEntries(
+  Object.entries(URGENCY_RANK).map(([urgency, rank]) => [rank, urgency])
+) as Record<number, RequestUrgency>;
+
+const requestIcon = (bloodGroup: string, urgency: RequestUrgency, isSelected: boolean) =>
+  L.divIcon({
+    className: '',
+    html: `<div style="background:${URGENCY_COLORS[urgency]};color:#fff;border:2px solid #fff;border-radius:9999px;width:36px;height:36px;display:flex;align-items:center;justify-content:center;font:600 12px sans-serif;box-shadow:0 1px 4px rgba(0,0,0,.4);${isSelected ? 'transform:scale(1.2);' : ''}">${bloodGroup}</div>`,
+    iconSize: [36, 36],
+    iconAnchor: [18, 18],
+  });
+
+// Clusters take the colour of their most urgent request
+const clusterIcon = (count: number, urgency: RequestUrgency) => {
+  const size = count < 10 ? 40 : count < 50 ? 48 : 56;
+  return L.divIcon({
+    className: '',
+    html: `<div style="background:${URGENCY_COLORS[urgency]};color:#fff;border:3px solid rgba(255,255,255,.8);border-radius:9999px;width:${size}px;height:${size}px;display:flex;align-items:center;justify-content:center;font:700 14px sans-serif;box-shadow:0 1px 4px rgba(0,0,0,.4);">${count}</div>`,
+    iconSize: [size, size],
+    iconAnchor: [size / 2, size / 2],
+  });
+};
+
+const getBBox = (map: L.Map): BBox => {
+  const bounds = map.getBounds();
+  return [bounds.getWest(), bounds.getSouth(), bounds.getEast(), bounds.getNorth()];
+};
+
+interface ClusterLayerProps {
+  index: Supercluster<PointProperties, ClusterProperties>;
+  selectedId: string | null;
+  onSelect: (requestId: string) => void;
+}
+
+const ClusterLayer = ({ index, selectedId, onSelect }: ClusterLayerProps) => {
+  const map = useMap();
+  const [view, setView] = useState(() => ({ bbox: getBBox(map), zoom: map.getZoom() }));
+
+  useMapEvents({
+    moveend: () => setView({ bbox: getBBox(map), zoom: map.getZoom() }),
+  });
+
+  const clusters = index.getClusters(view.bbox, Math.round(view.zoom));
+
+  return (
+    <>
+      {clusters.map((feature) => {
+        const [longitude, latitude] = feature.geometry.coordinates;
+
+        if ('cluster' in feature.properties && feature.properties.cluster) {
+          const clusterId = feature.properties.cluster_id;
+          return (
+            <Marker
+              key={`cluster-${clusterId}`}
+              position={[latitude, longitude]}
+              icon={clusterIcon(feature.properties.point_count, URGENCY_BY_RANK[feature.properties.urgencyRank])}
+              eventHandlers={{
+                click: () => map.setView(
+                  [latitude, longitude],
+                  Math.min(index.getClusterExpansionZoom(clusterId), MAP_MAX_ZOOM)
+                ),
+              }}
+            />
+          );
+        }
+
+        const point = feature.properties as PointProperties;
+        return (
+          <Marker
+            key={point.requestId}
+            position={[latitude, longitude]}
+            icon={requestIcon(point.bloodGroup, URGENCY_BY_RANK[point.urgencyRank], point.requestId === selectedId)}
+            eventHandlers={{ click: () => onSelect(point.requestId) }}
+          />
+        );
+      })}
+    </>
+  );
+};
+
+// Frames the requests once they load, used when the donor has not shared a location
+const FitToRequests = ({ points }: { points: [number, number][] }) => {
+  const map = useMap();
+  const hasFitted = useRef(false);
+
+  useEffect(() => {
+    if (hasFitted.current || points.length === 0) return;
+    hasFitted.current = true;
+    map.fitBounds(points, { padding: [40, 40], maxZoom: NEARBY_ZOOM });
+  }, [map, points]);
+
+  return null;
+};
+
+interface RequestsMapProps {
+  user: User;
+  donor: {
+    user_id: string;
+    blood_group: BloodGroup;
+    latitude: number | null;
+    longitude: number | null;
+  };
+  myClaims: {[requestId: string]: MyClaim};
+  // Bumped by the Dashboard when requests change so the map stays in step with the list
+  refreshToken: number;
+  onClaim: (requestId: string, pledgedUnits: number) => void;
+  onConfirmMyDonation: (claimId: string) => void;
+}
+
+export const RequestsMap = ({ user, donor, myClaims, refreshToken, onClaim, onConfirmMyDonation }: RequestsMapProps) => {
+  const [requests, setRequests] = useState<BloodRequest[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchMapRequests = async () => {
+      try {
+        const { data, error } = await supabase.rpc('get_safe_requests');
+
+        if (error) throw error;
+
+        // The map is for helping others, the donor's own requests live in the My Requests tab
+        const visibleRequests = (data || []).filter(request => request.requester_id !== user.id);
+
+        const requestsWithHospitals = await attachHospitals(visibleRequests);
+        setRequests(requestsWithHospitals.sort(compareByUrgency));
+      } catch (error) {
+        console.error('Error fetching map requests:', error);
+      }
+    };
+
+    fetchMapRequests();
+  }, [user.id, refreshToken]);
+
+  const mappedRequests = useMemo(
+    () => requests.filter(request => request.latitude != null && request.longitude != null),
+    [requests]
+  );
+
+  const index = useMemo(() => {
+    const cluster = new Supercluster<PointProperties, ClusterProperties>({
+      radius: 60,
+      maxZoom: MAP_MAX_ZOOM - 1,
+      map: (props) => ({ urgencyRank: props.urgencyRank }),
+      reduce: (accumulated, props) => {
+        accumulated.urgencyRank = Math.min(accumulated.urgencyRank, props.urgencyRank);
+      },
+    });
+    cluster.load(mappedRequests.map(request => ({
+      type: 'Feature' as const,
+      properties: {
+        requestId: request.id,
+        bloodGroup: request.blood_group,
+        urgencyRank: URGENCY_RANK[request.urgency],
+      },
+      geometry: {
+        type: 'Point' as const,
+        coordinates: [request.longitude, request.latitude],
+      },
+    })));
+    return cluster;
+  }, [mappedRequests]);
+
+  const selectedRequest = requests.find(request => request.id === selectedId);
+  const hasDonorLocation = donor.latitude != null && donor.longitude != null;
+  const points = useMemo(
+    () => mappedRequests.map((request): [number, number] => [request.latitude, request.longitude]),
+    [mappedRequests]
+  );
+  const unmappedCount = requests.length - mappedRequests.length;
+
+  return (
+    <div className="grid gap-4 lg:grid-cols-5">
+      <div className="lg:col-span-3 space-y-2">
+        <div className="h-[480px] rounded-xl overflow-hidden shadow-soft isolate">
+          <MapContainer
+            center={hasDonorLocation ? [donor.latitude, donor.longitude] : DEFAULT_CENTER}
+            zoom={hasDonorLocation ? NEARBY_ZOOM : DEFAULT_ZOOM}
+            maxZoom={MAP_MAX_ZOOM}
+            className="h-full w-full"
+          >
+            <TileLayer url={MAP_TILE_URL} attribution={MAP_TILE_ATTRIBUTION} maxZoom={MAP_MAX_ZOOM} />
+            <ClusterLayer index={index} selectedId={selectedId} onSelect={setSelectedId} />
+            {!hasDonorLocation && <FitToRequests points={points} />}
+          </MapContainer>
+        </div>
+        <div className="flex flex-wrap items-center gap-4 text-xs text-muted-foreground">
+          {REQUEST_URGENCIES.map((urgency) => (
+            <span key={urgency} className="flex items-center gap-1">
+              <span className="h-3 w-3 rounded-full" style={{ background: URGENCY_COLORS[urgency] }} />
+              {URGENCY_LABELS[urgency]}
+            </span>
+          ))}
+          {unmappedCount > 0 && (
+            <span>
+              {unmappedCount} request{unmappedCount !== 1 ? 's' : ''} without a location are only shown in the list
+            </span>
+          )}
+        </div>
+      </div>
+
+      <div className="lg:col-span-2">
+        {selectedRequest ? (
+          <DonorRequestCard
+            key={selectedRequest.id}
+            request={selectedRequest}
+            donor={donor}
+            myClaim={myClaims[selectedRequest.id]}
+            onClaim={onClaim}
+            onConfirmMyDonation={onConfirmMyDonation}
+          />
+        ) : (
+          <Card className="border-0 shadow-soft">
+            <CardContent className="text-center py-12">
+              <MapPin className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-lg text-muted-foreground">
+                {mappedRequests.length > 0 ? "Select a request on the map" : "No requests to show on the map"}
+              </p>
+              <p className="text-sm text-muted-foreground mt-1">
+                {mappedRequests.length > 0
+                  ? "Zoom into a cluster to see individual requests"
+                  : "Requests appear here once requesters share a location or pick a listed hospital"}
+              </p>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,10 +1,12 @@
 import { ReactNode } from "react";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
-import { User, LogOut, Droplets } from "lucide-react";
+import { User, LogOut, Droplets, History, Eye, Inbox } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { Footer } from "./Footer";
+import { useContactRequestInbox } from "@/hooks/useContactRequestInbox";
 
 interface AppLayoutProps {
   children: ReactNode;
@@ -14,6 +16,8 @@ interface AppLayoutProps {
 export const AppLayout = ({ children, user }: AppLayoutProps) => {
   const { toast } = useToast();
   const navigate = useNavigate();
+  const { unread } = useContactRequestInbox(user?.id);
+  const unreadCount = unread.received + unread.sent;
 
   const handleSignOut = async () => {
     const { error } = await supabase.auth.signOut();
@@ -45,6 +49,38 @@ export const AppLayout = ({ children, user }: AppLayoutProps) => {
             </div>
 
             <div className="flex items-center gap-3">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => navigate("/history")}
+                className="flex items-center gap-2"
+              >
+                <History className="h-4 w-4" />
+                History
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => navigate("/watchlist")}
+                className="flex items-center gap-2"
+              >
+                <Eye className="h-4 w-4" />
+                Watchlist
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => navigate("/inbox")}
+                className="flex items-center gap-2"
+              >
+                <Inbox className="h-4 w-4" />
+                Inbox
+                {unreadCount > 0 && (
+                  <Badge className="h-5 min-w-5 px-1.5 justify-center bg-medical-red text-white">
+                    {unreadCount > 9 ? '9+' : unreadCount}
+                  </Badge>
+                )}
+              </Button>
               <Button
                 variant="ghost"
                 size="sm"
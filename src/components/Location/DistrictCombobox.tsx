@@ -0,0 +1,73 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { cn } from "@/lib/utils";
+import { Check, ChevronsUpDown } from "lucide-react";
+import { useDistricts, type DistrictOption } from "@/hooks/useDistricts";
+
+interface DistrictComboboxProps {
+  id?: string;
+  value?: number | null;
+  onChange: (district: DistrictOption) => void;
+  placeholder?: string;
+}
+
+export const DistrictCombobox = ({ id, value, onChange, placeholder = "Select district" }: DistrictComboboxProps) => {
+  const [open, setOpen] = useState(false);
+  const { districts, loading } = useDistricts();
+  const selected = districts.find((district) => district.id === value);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          id={id}
+          type="button"
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          className="w-full justify-between font-normal"
+        >
+          <span className={cn("truncate", !selected && "text-muted-foreground")}>
+            {selected ? `${selected.name}, ${selected.state}` : placeholder}
+          </span>
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Search district or state..." />
+          <CommandList>
+            <CommandEmpty>{loading ? "Loading districts..." : "No district found."}</CommandEmpty>
+            <CommandGroup>
+              {districts.map((district) => (
+                <CommandItem
+                  key={district.id}
+                  // Unique per district, names repeat across states
+                  value={`${district.name} ${district.state} ${district.id}`}
+                  keywords={district.aliases}
+                  onSelect={() => {
+                    onChange(district);
+                    setOpen(false);
+                  }}
+                >
+                  <Check className={cn("mr-2 h-4 w-4", district.id === value ? "opacity-100" : "opacity-0")} />
+                  {district.name}
+                  <span className="ml-auto text-xs text-muted-foreground">{district.state}</span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
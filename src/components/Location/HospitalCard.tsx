@@ -0,0 +1,50 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { BadgeCheck, Building2, ExternalLink, Phone } from "lucide-react";
+import { getMapsUrl } from "@/lib/geolocation";
+import type { Hospital } from "@/hooks/useHospitals";
+
+interface HospitalCardProps {
+  hospital: Pick<Hospital, 'name' | 'address' | 'blood_bank_phone' | 'is_verified' | 'latitude' | 'longitude'>;
+  // Ward, bed or other details the requester added
+  note?: string | null;
+}
+
+export const HospitalCard = ({ hospital, note }: HospitalCardProps) => {
+  return (
+    <div className="border rounded-lg p-3 space-y-2">
+      <div className="flex items-start justify-between gap-2">
+        <div className="flex items-start gap-2 min-w-0">
+          <Building2 className="h-4 w-4 mt-0.5 text-muted-foreground shrink-0" />
+          <div className="min-w-0">
+            <p className="text-sm font-medium text-foreground">{hospital.name}</p>
+            <p className="text-sm text-muted-foreground">{hospital.address}</p>
+            {note && <p className="text-sm text-muted-foreground">{note}</p>}
+          </div>
+        </div>
+        {hospital.is_verified && (
+          <Badge variant="outline" className="border-success text-success shrink-0">
+            <BadgeCheck className="h-3 w-3 mr-1" />
+            Verified
+          </Badge>
+        )}
+      </div>
+      <div className="flex flex-wrap gap-2">
+        <Button size="sm" variant="outline" asChild>
+          <a href={getMapsUrl(hospital)} target="_blank" rel="noopener noreferrer">
+            <ExternalLink className="h-4 w-4 mr-2" />
+            Open in Maps
+          </a>
+        </Button>
+        {hospital.blood_bank_phone && (
+          <Button size="sm" variant="outline" asChild>
+            <a href={`tel:${hospital.blood_bank_phone}`}>
+              <Phone className="h-4 w-4 mr-2" />
+              Blood Bank
+            </a>
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
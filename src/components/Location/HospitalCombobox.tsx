@@ -0,0 +1,88 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { cn } from "@/lib/utils";
+import { BadgeCheck, Check, ChevronsUpDown } from "lucide-react";
+import { useHospitals, type Hospital } from "@/hooks/useHospitals";
+
+interface HospitalComboboxProps {
+  id?: string;
+  districtId?: number | null;
+  value?: string | null;
+  // Called with null when the requester picks "not listed"
+  onChange: (hospital: Hospital | null) => void;
+}
+
+export const HospitalCombobox = ({ id, districtId, value, onChange }: HospitalComboboxProps) => {
+  const [open, setOpen] = useState(false);
+  const { hospitals, loading } = useHospitals(districtId);
+  const selected = hospitals.find((hospital) => hospital.id === value);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          id={id}
+          type="button"
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          disabled={!districtId}
+          className="w-full justify-between font-normal"
+        >
+          <span className={cn("truncate", !selected && "text-muted-foreground")}>
+            {selected ? selected.name : districtId ? "Select hospital or blood bank" : "Select a district first"}
+          </span>
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Search hospitals..." />
+          <CommandList>
+            <CommandEmpty>{loading ? "Loading hospitals..." : "No hospital found."}</CommandEmpty>
+            <CommandGroup>
+              {hospitals.map((hospital) => (
+                <CommandItem
+                  key={hospital.id}
+                  value={`${hospital.name} ${hospital.address} ${hospital.id}`}
+                  onSelect={() => {
+                    onChange(hospital);
+                    setOpen(false);
+                  }}
+                >
+                  <Check className={cn("mr-2 h-4 w-4 shrink-0", hospital.id === value ? "opacity-100" : "opacity-0")} />
+                  <div className="min-w-0">
+                    <p className="truncate flex items-center gap-1">
+                      {hospital.name}
+                      {hospital.is_verified && <BadgeCheck className="h-3 w-3 text-success shrink-0" />}
+                    </p>
+                    <p className="truncate text-xs text-muted-foreground">{hospital.address}</p>
+                  </div>
+                </CommandItem>
+              ))}
+              <CommandItem
+                value="not listed"
+                onSelect={() => {
+                  onChange(null);
+                  setOpen(false);
+                }}
+              >
+                <Check className={cn("mr-2 h-4 w-4 shrink-0", !value ? "opacity-100" : "opacity-0")} />
+                Not listed, describe the location below
+              </CommandItem>
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,97 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { useToast } from './use-toast';
+
+type ContactRequestRow = Database['public']['Tables']['contact_requests']['Row'];
+
+export interface UnreadContactRequests {
+  received: number;
+  sent: number;
+}
+
+// Live unread counts for the signed-in user's contact requests, toasting when one arrives or is answered
+export const useContactRequestInbox = (userId: string | null | undefined) => {
+  const [unread, setUnread] = useState<UnreadContactRequests>({ received: 0, sent: 0 });
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!userId) {
+      setUnread({ received: 0, sent: 0 });
+      return;
+    }
+
+    let isMounted = true;
+
+    const fetchUnread = async () => {
+      const { data, error } = await supabase.rpc('get_unread_contact_request_counts');
+      if (!isMounted) return;
+      if (error) {
+        console.error('Error fetching unread contact requests:', error);
+        return;
+      }
+      setUnread(data?.[0] ?? { received: 0, sent: 0 });
+    };
+
+    fetchUnread();
+
+    const channel = supabase
+      .channel(`contact-requests-inbox-${userId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'contact_requests',
+          filter: `donor_id=eq.${userId}`,
+        },
+        () => {
+          toast({
+            title: "New Contact Request",
+            description: "A requester would like your contact details. Open your inbox to respond.",
+          });
+          fetchUnread();
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'contact_requests',
+          filter: `donor_id=eq.${userId}`,
+        },
+        () => fetchUnread()
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'contact_requests',
+          filter: `requester_id=eq.${userId}`,
+        },
+        (payload) => {
+          const contactRequest = payload.new as ContactRequestRow;
+          // Only the donor's answer stamps responded_at, later read receipts move updated_at past it
+          if (contactRequest.responded_at && contactRequest.responded_at === contactRequest.updated_at) {
+            toast({
+              title: contactRequest.status === 'approved' ? "Contact Shared" : "Contact Request Declined",
+              description: contactRequest.status === 'approved'
+                ? "A donor shared their contact details. Check your sent requests in the inbox."
+                : "A donor declined your contact request. You can ask other matching donors.",
+            });
+          }
+          fetchUnread();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      isMounted = false;
+      supabase.removeChannel(channel);
+    };
+  }, [userId, toast]);
+
+  return { unread };
+};
@@ -0,0 +1,60 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface DistrictOption {
+  id: number;
+  name: string;
+  state: string;
+  aliases: string[];
+}
+
+// The catalogue rarely changes, so it is fetched once and shared by every location picker
+let districtsPromise: Promise<DistrictOption[]> | null = null;
+
+const fetchDistricts = async (): Promise<DistrictOption[]> => {
+  const { data, error } = await supabase
+    .from('districts')
+    .select('id, name, aliases, states(name)')
+    .order('name');
+
+  if (error) throw error;
+
+  return (data || []).map(district => ({
+    id: district.id,
+    name: district.name,
+    state: district.states?.name ?? '',
+    aliases: district.aliases,
+  }));
+};
+
+export const useDistricts = () => {
+  const [districts, setDistricts] = useState<DistrictOption[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    if (!districtsPromise) {
+      districtsPromise = fetchDistricts().catch((error) => {
+        // Allow the next picker to retry
+        districtsPromise = null;
+        throw error;
+      });
+    }
+
+    districtsPromise
+      .then((data) => {
+        if (isMounted) setDistricts(data);
+      })
+      .catch((error) => console.error('Error fetching districts:', error))
+      .finally(() => {
+        if (isMounted) setLoading(false);
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  return { districts, loading };
+};
@@ -0,0 +1,42 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+
+export type Hospital = Database['public']['Tables']['hospitals']['Row'];
+
+// Hospitals and blood banks listed for one district, verified listings first
+export const useHospitals = (districtId: number | null | undefined) => {
+  const [hospitals, setHospitals] = useState<Hospital[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!districtId) {
+      setHospitals([]);
+      return;
+    }
+
+    let isMounted = true;
+    setLoading(true);
+
+    supabase
+      .from('hospitals')
+      .select('*')
+      .eq('district_id', districtId)
+      .order('is_verified', { ascending: false })
+      .order('name')
+      .then(({ data, error }) => {
+        if (!isMounted) return;
+        if (error) {
+          console.error('Error fetching hospitals:', error);
+        }
+        setHospitals(data || []);
+        setLoading(false);
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [districtId]);
+
+  return { hospitals, loading };
+};
@@ -14,24 +14,54 @@ export type Database = {
   }
   public: {
     Tables: {
+      blood_compatibility: {
+        Row: {
+          component: Database["public"]["Enums"]["blood_component"]
+          donor_group: Database["public"]["Enums"]["blood_group"]
+          recipient_group: Database["public"]["Enums"]["blood_group"]
+        }
+        Insert: {
+          component: Database["public"]["Enums"]["blood_component"]
+          donor_group: Database["public"]["Enums"]["blood_group"]
+          recipient_group: Database["public"]["Enums"]["blood_group"]
+        }
+        Update: {
+          component?: Database["public"]["Enums"]["blood_component"]
+          donor_group?: Database["public"]["Enums"]["blood_group"]
+          recipient_group?: Database["public"]["Enums"]["blood_group"]
+        }
+        Relationships: []
+      }
       claims: {
         Row: {
           claimed_at: string
+          confirmed_units: number | null
+          donor_confirmed_at: string | null
           donor_id: string
           id: string
+          pledged_units: number
           request_id: string
+          requester_confirmed_at: string | null
         }
         Insert: {
           claimed_at?: string
+          confirmed_units?: number | null
+          donor_confirmed_at?: string | null
           donor_id: string
           id?: string
+          pledged_units?: number
           request_id: string
+          requester_confirmed_at?: string | null
         }
         Update: {
           claimed_at?: string
+          confirmed_units?: number | null
+          donor_confirmed_at?: string | null
           donor_id?: string
           id?: string
+          pledged_units?: number
           request_id?: string
+          requester_confirmed_at?: string | null
         }
         Relationships: [
           {
@@ -54,33 +84,42 @@ export type Database = {
         Row: {
           created_at: string
           donor_id: string
+          donor_read_at: string | null
           expires_at: string
           id: string
           message: string | null
           request_id: string
           requester_id: string
+          requester_read_at: string | null
+          responded_at: string | null
           status: string
           updated_at: string
         }
         Insert: {
           created_at?: string
           donor_id: string
+          donor_read_at?: string | null
           expires_at?: string
           id?: string
           message?: string | null
           request_id: string
           requester_id: string
+          requester_read_at?: string | null
+          responded_at?: string | null
           status?: string
           updated_at?: string
         }
         Update: {
           created_at?: string
           donor_id?: string
+          donor_read_at?: string | null
           expires_at?: string
           id?: string
           message?: string | null
           request_id?: string
           requester_id?: string
+          requester_read_at?: string | null
+          responded_at?: string | null
           status?: string
           updated_at?: string
         }
@@ -94,29 +133,74 @@ export type Database = {
           },
         ]
       }
+      districts: {
+        Row: {
+          aliases: string[]
+          id: number
+          name: string
+          state_id: number
+        }
+        Insert: {
+          aliases?: string[]
+          id?: number
+          name: string
+          state_id: number
+        }
+        Update: {
+          aliases?: string[]
+          id?: number
+          name?: string
+          state_id?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "districts_state_id_fkey"
+            columns: ["state_id"]
+            isOneToOne: false
+            referencedRelation: "states"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       favourites: {
         Row: {
           blood_group: Database["public"]["Enums"]["blood_group"] | null
           created_at: string
           district: string | null
+          district_id: number | null
           id: string
+          normalised_district: string | null
+          notify: boolean
           user_id: string
         }
         Insert: {
           blood_group?: Database["public"]["Enums"]["blood_group"] | null
           created_at?: string
           district?: string | null
+          district_id?: number | null
           id?: string
+          normalised_district?: never
+          notify?: boolean
           user_id: string
         }
         Update: {
           blood_group?: Database["public"]["Enums"]["blood_group"] | null
           created_at?: string
           district?: string | null
+          district_id?: number | null
           id?: string
+          normalised_district?: never
+          notify?: boolean
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "favourites_district_id_fkey"
+            columns: ["district_id"]
+            isOneToOne: false
+            referencedRelation: "districts"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "favourites_user_id_fkey"
             columns: ["user_id"]
@@ -126,16 +210,234 @@ export type Database = {
           },
         ]
       }
+      hospitals: {
+        Row: {
+          address: string
+          blood_bank_phone: string | null
+          created_at: string
+          district_id: number
+          id: string
+          is_verified: boolean
+          latitude: number | null
+          longitude: number | null
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          address: string
+          blood_bank_phone?: string | null
+          created_at?: string
+          district_id: number
+          id?: string
+          is_verified?: boolean
+          latitude?: number | null
+          longitude?: number | null
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          address?: string
+          blood_bank_phone?: string | null
+          created_at?: string
+          district_id?: number
+          id?: string
+          is_verified?: boolean
+          latitude?: number | null
+          longitude?: number | null
+          name?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hospitals_district_id_fkey"
+            columns: ["district_id"]
+            isOneToOne: false
+            referencedRelation: "districts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      location_migration_report: {
+        Row: {
+          applied: boolean
+          created_at: string
+          id: number
+          match_score: number | null
+          matched_district_id: number | null
+          original_district: string | null
+          original_state: string | null
+          source_id: string
+          source_table: string
+        }
+        Insert: {
+          applied?: boolean
+          created_at?: string
+          id?: number
+          match_score?: number | null
+          matched_district_id?: number | null
+          original_district?: string | null
+          original_state?: string | null
+          source_id: string
+          source_table: string
+        }
+        Update: {
+          applied?: boolean
+          created_at?: string
+          id?: number
+          match_score?: number | null
+          matched_district_id?: number | null
+          original_district?: string | null
+          original_state?: string | null
+          source_id?: string
+          source_table?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "location_migration_report_matched_district_id_fkey"
+            columns: ["matched_district_id"]
+            isOneToOne: false
+            referencedRelation: "districts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      messages: {
+        Row: {
+          body: string
+          created_at: string
+          donor_id: string
+          id: string
+          notified_at: string | null
+          request_id: string
+          sender_id: string
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          donor_id: string
+          id?: string
+          notified_at?: string | null
+          request_id: string
+          sender_id: string
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          donor_id?: string
+          id?: string
+          notified_at?: string | null
+          request_id?: string
+          sender_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "messages_donor_id_fkey"
+            columns: ["donor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "messages_request_id_fkey"
+            columns: ["request_id"]
+            isOneToOne: false
+            referencedRelation: "requests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "messages_sender_id_fkey"
+            columns: ["sender_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      phone_relays: {
+        Row: {
+          created_at: string
+          donor_id: string
+          donor_proxy_number: string
+          expires_at: string
+          id: string
+          provider: string
+          provider_session_id: string
+          released_at: string | null
+          request_id: string
+          requester_id: string
+          requester_proxy_number: string
+        }
+        Insert: {
+          created_at?: string
+          donor_id: string
+          donor_proxy_number: string
+          expires_at: string
+          id?: string
+          provider: string
+          provider_session_id: string
+          released_at?: string | null
+          request_id: string
+          requester_id: string
+          requester_proxy_number: string
+        }
+        Update: {
+          created_at?: string
+          donor_id?: string
+          donor_proxy_number?: string
+          expires_at?: string
+          id?: string
+          provider?: string
+          provider_session_id?: string
+          released_at?: string | null
+          request_id?: string
+          requester_id?: string
+          requester_proxy_number?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "phone_relays_donor_id_fkey"
+            columns: ["donor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "phone_relays_request_id_fkey"
+            columns: ["request_id"]
+            isOneToOne: false
+            referencedRelation: "requests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "phone_relays_requester_id_fkey"
+            columns: ["requester_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           blood_group: Database["public"]["Enums"]["blood_group"]
           created_at: string
           district: string
+          district_id: number | null
+          donatable_components: Database["public"]["Enums"]["blood_component"][]
+          eligible_again_on: string | null
           full_name: string
           id: string
+          is_available: boolean
           is_confirmed: boolean | null
+          last_donation_component: Database["public"]["Enums"]["blood_component"] | null
+          last_donation_date: string | null
+          latitude: number | null
+          longitude: number | null
+          match_radius_km: number
+          normalised_district: string | null
           phone: string
           state: string
+          unavailable_until: string | null
           updated_at: string
           user_id: string
         }
@@ -143,11 +445,22 @@ export type Database = {
           blood_group: Database["public"]["Enums"]["blood_group"]
           created_at?: string
           district: string
+          district_id?: number | null
+          donatable_components?: Database["public"]["Enums"]["blood_component"][]
+          eligible_again_on?: never
           full_name: string
           id?: string
+          is_available?: boolean
           is_confirmed?: boolean | null
+          last_donation_component?: Database["public"]["Enums"]["blood_component"] | null
+          last_donation_date?: string | null
+          latitude?: number | null
+          longitude?: number | null
+          match_radius_km?: number
+          normalised_district?: never
           phone: string
           state: string
+          unavailable_until?: string | null
           updated_at?: string
           user_id: string
         }
@@ -155,63 +468,286 @@ export type Database = {
           blood_group?: Database["public"]["Enums"]["blood_group"]
           created_at?: string
           district?: string
+          district_id?: number | null
+          donatable_components?: Database["public"]["Enums"]["blood_component"][]
+          eligible_again_on?: never
           full_name?: string
           id?: string
+          is_available?: boolean
           is_confirmed?: boolean | null
+          last_donation_component?: Database["public"]["Enums"]["blood_component"] | null
+          last_donation_date?: string | null
+          latitude?: number | null
+          longitude?: number | null
+          match_radius_km?: number
+          normalised_district?: never
           phone?: string
           state?: string
+          unavailable_until?: string | null
           updated_at?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "profiles_district_id_fkey"
+            columns: ["district_id"]
+            isOneToOne: false
+            referencedRelation: "districts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      recurring_requests: {
+        Row: {
+          blood_group: Database["public"]["Enums"]["blood_group"]
+          cadence_days: number
+          component: Database["public"]["Enums"]["blood_component"]
+          created_at: string
+          district: string
+          district_id: number | null
+          hospital_id: string | null
+          id: string
+          last_materialised_at: string | null
+          latitude: number | null
+          location_description: string | null
+          longitude: number | null
+          message: string | null
+          next_needed_at: string
+          requester_id: string
+          requester_name: string
+          requester_phone: string
+          state: string
+          status: string
+          units_needed: number
+          updated_at: string
+        }
+        Insert: {
+          blood_group: Database["public"]["Enums"]["blood_group"]
+          cadence_days: number
+          component?: Database["public"]["Enums"]["blood_component"]
+          created_at?: string
+          district: string
+          district_id?: number | null
+          hospital_id?: string | null
+          id?: string
+          last_materialised_at?: string | null
+          latitude?: number | null
+          location_description?: string | null
+          longitude?: number | null
+          message?: string | null
+          next_needed_at: string
+          requester_id: string
+          requester_name: string
+          requester_phone: string
+          state: string
+          status?: string
+          units_needed?: number
+          updated_at?: string
+        }
+        Update: {
+          blood_group?: Database["public"]["Enums"]["blood_group"]
+          cadence_days?: number
+          component?: Database["public"]["Enums"]["blood_component"]
+          created_at?: string
+          district?: string
+          district_id?: number | null
+          hospital_id?: string | null
+          id?: string
+          last_materialised_at?: string | null
+          latitude?: number | null
+          location_description?: string | null
+          longitude?: number | null
+          message?: string | null
+          next_needed_at?: string
+          requester_id?: string
+          requester_name?: string
+          requester_phone?: string
+          state?: string
+          status?: string
+          units_needed?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recurring_requests_district_id_fkey"
+            columns: ["district_id"]
+            isOneToOne: false
+            referencedRelation: "districts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_requests_hospital_id_fkey"
+            columns: ["hospital_id"]
+            isOneToOne: false
+            referencedRelation: "hospitals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_requests_requester_id_fkey"
+            columns: ["requester_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      request_extensions: {
+        Row: {
+          created_at: string
+          donors_notified_at: string | null
+          hours: number
+          id: string
+          new_expires_at: string
+          notify_donors: boolean
+          previous_expires_at: string
+          request_id: string
+        }
+        Insert: {
+          created_at?: string
+          donors_notified_at?: string | null
+          hours: number
+          id?: string
+          new_expires_at: string
+          notify_donors?: boolean
+          previous_expires_at: string
+          request_id: string
+        }
+        Update: {
+          created_at?: string
+          donors_notified_at?: string | null
+          hours?: number
+          id?: string
+          new_expires_at?: string
+          notify_donors?: boolean
+          previous_expires_at?: string
+          request_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "request_extensions_request_id_fkey"
+            columns: ["request_id"]
+            isOneToOne: false
+            referencedRelation: "requests"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       requests: {
         Row: {
           blood_group: Database["public"]["Enums"]["blood_group"]
+          cancellation_note: string | null
+          cancellation_reason:
+            | Database["public"]["Enums"]["request_cancellation_reason"]
+            | null
+          cancelled_at: string | null
+          component: Database["public"]["Enums"]["blood_component"]
           created_at: string
           district: string
+          district_id: number | null
           expires_at: string
+          expiry_warning_sent_at: string | null
+          hospital_id: string | null
           id: string
+          latitude: number | null
           location_description: string | null
+          longitude: number | null
           message: string | null
+          needed_by: string | null
+          recurring_request_id: string | null
+          reminder_sent_at: string | null
           requester_id: string
           requester_name: string
           requester_phone: string
           state: string
           status: Database["public"]["Enums"]["request_status"]
+          units_needed: number
           updated_at: string
+          urgency: Database["public"]["Enums"]["request_urgency"]
         }
         Insert: {
           blood_group: Database["public"]["Enums"]["blood_group"]
+          cancellation_note?: string | null
+          cancellation_reason?:
+            | Database["public"]["Enums"]["request_cancellation_reason"]
+            | null
+          cancelled_at?: string | null
+          component?: Database["public"]["Enums"]["blood_component"]
           created_at?: string
           district: string
+          district_id?: number | null
           expires_at?: string
+          expiry_warning_sent_at?: string | null
+          hospital_id?: string | null
           id?: string
+          latitude?: number | null
           location_description?: string | null
+          longitude?: number | null
           message?: string | null
+          needed_by?: string | null
+          recurring_request_id?: string | null
+          reminder_sent_at?: string | null
           requester_id: string
           requester_name: string
           requester_phone: string
           state: string
           status?: Database["public"]["Enums"]["request_status"]
+          units_needed?: number
           updated_at?: string
+          urgency?: Database["public"]["Enums"]["request_urgency"]
         }
         Update: {
           blood_group?: Database["public"]["Enums"]["blood_group"]
+          cancellation_note?: string | null
+          cancellation_reason?:
+            | Database["public"]["Enums"]["request_cancellation_reason"]
+            | null
+          cancelled_at?: string | null
+          component?: Database["public"]["Enums"]["blood_component"]
           created_at?: string
           district?: string
+          district_id?: number | null
           expires_at?: string
+          expiry_warning_sent_at?: string | null
+          hospital_id?: string | null
           id?: string
+          latitude?: number | null
           location_description?: string | null
+          longitude?: number | null
           message?: string | null
+          needed_by?: string | null
+          recurring_request_id?: string | null
+          reminder_sent_at?: string | null
           requester_id?: string
           requester_name?: string
           requester_phone?: string
           state?: string
           status?: Database["public"]["Enums"]["request_status"]
+          units_needed?: number
           updated_at?: string
+          urgency?: Database["public"]["Enums"]["request_urgency"]
         }
         Relationships: [
+          {
+            foreignKeyName: "requests_district_id_fkey"
+            columns: ["district_id"]
+            isOneToOne: false
+            referencedRelation: "districts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "requests_hospital_id_fkey"
+            columns: ["hospital_id"]
+            isOneToOne: false
+            referencedRelation: "hospitals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "requests_recurring_request_id_fkey"
+            columns: ["recurring_request_id"]
+            isOneToOne: false
+            referencedRelation: "recurring_requests"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "requests_requester_id_fkey"
             columns: ["requester_id"]
@@ -221,6 +757,21 @@ export type Database = {
           },
         ]
       }
+      states: {
+        Row: {
+          id: number
+          name: string
+        }
+        Insert: {
+          id?: number
+          name: string
+        }
+        Update: {
+          id?: number
+          name?: string
+        }
+        Relationships: []
+      }
       user_tokens: {
         Row: {
           created_at: string
@@ -253,14 +804,150 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      can_donate_to: {
+        Args: {
+          donor: Database["public"]["Enums"]["blood_group"]
+          needed: Database["public"]["Enums"]["blood_component"]
+          recipient: Database["public"]["Enums"]["blood_group"]
+        }
+        Returns: boolean
+      }
+      cancel_request: {
+        Args: {
+          note?: string
+          reason: Database["public"]["Enums"]["request_cancellation_reason"]
+          target_request_id: string
+        }
+        Returns: undefined
+      }
+      confirm_donation: {
+        Args: { target_claim_id: string; units: number }
+        Returns: undefined
+      }
+      confirm_my_donation: {
+        Args: { target_claim_id: string }
+        Returns: undefined
+      }
       confirm_user_email: {
         Args: { user_email: string }
         Returns: undefined
       }
+      distance_km: {
+        Args: { lat1: number; lat2: number; lng1: number; lng2: number }
+        Returns: number
+      }
+      expire_contact_requests: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
       expire_old_requests: {
         Args: Record<PropertyKey, never>
+        Returns: string[]
+      }
+      extend_request: {
+        Args: {
+          hours?: number
+          notify_donors?: boolean
+          target_request_id: string
+        }
+        Returns: string
+      }
+      fulfil_request: {
+        Args: { target_request_id: string }
         Returns: undefined
       }
+      get_my_donation_history: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          blood_group: Database["public"]["Enums"]["blood_group"]
+          claim_id: string
+          claimed_at: string
+          component: Database["public"]["Enums"]["blood_component"]
+          confirmed_units: number
+          district: string
+          donor_confirmed_at: string
+          location_description: string
+          pledged_units: number
+          request_id: string
+          request_status: Database["public"]["Enums"]["request_status"]
+          requester_confirmed_at: string
+          requester_name: string
+        }[]
+      }
+      get_my_request_progress: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          confirmed_units: number
+          helpers: number
+          pledged_units: number
+          request_id: string
+        }[]
+      }
+      get_my_requests: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          blood_group: Database["public"]["Enums"]["blood_group"]
+          cancellation_note: string | null
+          cancellation_reason:
+            | Database["public"]["Enums"]["request_cancellation_reason"]
+            | null
+          cancelled_at: string | null
+          component: Database["public"]["Enums"]["blood_component"]
+          created_at: string
+          district: string
+          district_id: number | null
+          expires_at: string
+          expiry_warning_sent_at: string | null
+          hospital_id: string | null
+          id: string
+          latitude: number | null
+          location_description: string | null
+          longitude: number | null
+          message: string | null
+          needed_by: string | null
+          recurring_request_id: string | null
+          reminder_sent_at: string | null
+          requester_id: string
+          requester_name: string
+          requester_phone: string
+          state: string
+          status: Database["public"]["Enums"]["request_status"]
+          units_needed: number
+          updated_at: string
+          urgency: Database["public"]["Enums"]["request_urgency"]
+        }[]
+      }
+      get_received_contact_requests: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          created_at: string
+          donor_read_at: string
+          expires_at: string
+          id: string
+          message: string
+          request_blood_group: Database["public"]["Enums"]["blood_group"]
+          request_district: string
+          request_id: string
+          requester_id: string
+          requester_name: string
+          requester_phone: string
+          status: string
+        }[]
+      }
+      get_request_claims: {
+        Args: { target_request_id: string }
+        Returns: {
+          claim_id: string
+          claimed_at: string
+          confirmed_units: number
+          donor_blood_group: Database["public"]["Enums"]["blood_group"]
+          donor_confirmed_at: string
+          donor_id: string
+          donor_name: string
+          pledged_units: number
+          requester_confirmed_at: string
+        }[]
+      }
       get_safe_profile_info: {
         Args: { profile_user_id: string }
         Returns: {
@@ -277,24 +964,142 @@ export type Database = {
         Args: Record<PropertyKey, never>
         Returns: {
           blood_group: Database["public"]["Enums"]["blood_group"]
+          component: Database["public"]["Enums"]["blood_component"]
           created_at: string
           district: string
+          district_id: number
           expires_at: string
+          hospital_id: string
           id: string
+          latitude: number
           location_description: string
+          longitude: number
           message: string
+          needed_by: string
+          recurring_request_id: string
           requester_id: string
           requester_name: string
           requester_phone: string
           state: string
           status: Database["public"]["Enums"]["request_status"]
+          units_needed: number
+          updated_at: string
+          urgency: Database["public"]["Enums"]["request_urgency"]
+        }[]
+      }
+      get_sent_contact_requests: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          created_at: string
+          donor_blood_group: Database["public"]["Enums"]["blood_group"]
+          donor_id: string
+          donor_name: string
+          donor_phone: string
+          expires_at: string
+          id: string
+          is_unread: boolean
+          message: string
+          request_blood_group: Database["public"]["Enums"]["blood_group"]
+          request_district: string
+          request_id: string
+          responded_at: string
+          status: string
           updated_at: string
         }[]
       }
+      get_unread_contact_request_counts: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          received: number
+          sent: number
+        }[]
+      }
+      get_watchlist_requests: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          blood_group: Database["public"]["Enums"]["blood_group"]
+          component: Database["public"]["Enums"]["blood_component"]
+          created_at: string
+          district: string
+          district_id: number
+          expires_at: string
+          hospital_id: string
+          id: string
+          latitude: number
+          location_description: string
+          longitude: number
+          message: string
+          needed_by: string
+          requester_name: string
+          state: string
+          units_needed: number
+          urgency: Database["public"]["Enums"]["request_urgency"]
+        }[]
+      }
+      is_compatible_donor: {
+        Args: {
+          donor_user_id: string
+          needed: Database["public"]["Enums"]["blood_component"]
+          recipient: Database["public"]["Enums"]["blood_group"]
+        }
+        Returns: boolean
+      }
+      is_ready_to_donate: {
+        Args: { donor_user_id: string }
+        Returns: boolean
+      }
+      is_within_reach: {
+        Args: {
+          donor_user_id: string
+          request_district: string
+          request_district_id: number
+          request_latitude: number
+          request_longitude: number
+        }
+        Returns: boolean
+      }
+      mark_contact_requests_read: {
+        Args: { folder: string }
+        Returns: undefined
+      }
+      match_district: {
+        Args: { district_text: string; state_text: string }
+        Returns: {
+          district_id: number
+          score: number
+        }[]
+      }
+      materialise_recurring_requests: {
+        Args: Record<PropertyKey, never>
+        Returns: string[]
+      }
+      normalise_place_name: {
+        Args: { place: string }
+        Returns: string
+      }
+      search_request_donors: {
+        Args: { target_request_id: string }
+        Returns: {
+          blood_group: Database["public"]["Enums"]["blood_group"]
+          contact_status: string
+          distance_km: number
+          district: string
+          full_name: string
+          is_confirmed: boolean
+          user_id: string
+        }[]
+      }
     }
     Enums: {
+      blood_component: "whole_blood" | "prbc" | "platelets" | "plasma"
       blood_group: "O+" | "O-" | "A+" | "A-" | "B+" | "B-" | "AB+" | "AB-"
+      request_cancellation_reason:
+        | "fulfilled_elsewhere"
+        | "patient_discharged"
+        | "no_longer_needed"
+        | "other"
       request_status: "open" | "claimed" | "fulfilled" | "expired" | "cancelled"
+      request_urgency: "critical" | "within_24h" | "scheduled"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -422,8 +1227,16 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
+      blood_component: ["whole_blood", "prbc", "platelets", "plasma"],
       blood_group: ["O+", "O-", "A+", "A-", "B+", "B-", "AB+", "AB-"],
+      request_cancellation_reason: [
+        "fulfilled_elsewhere",
+        "patient_discharged",
+        "no_longer_needed",
+        "other",
+      ],
       request_status: ["open", "claimed", "fulfilled", "expired", "cancelled"],
+      request_urgency: ["critical", "within_24h", "scheduled"],
     },
   },
 } as const
@@ -0,0 +1,74 @@
+import { Constants, type Database } from "@/integrations/supabase/types";
+
+export type BloodGroup = Database["public"]["Enums"]["blood_group"];
+export type BloodComponent = Database["public"]["Enums"]["blood_component"];
+
+export type MatchType = 'exact' | 'compatible';
+
+export const BLOOD_GROUPS = Constants.public.Enums.blood_group;
+export const BLOOD_COMPONENTS = Constants.public.Enums.blood_component;
+
+export const BLOOD_COMPONENT_LABELS: Record<BloodComponent, string> = {
+  whole_blood: 'Whole Blood',
+  prbc: 'Packed Red Cells (PRBC)',
+  platelets: 'Platelets',
+  plasma: 'Plasma',
+};
+
+type AboGroup = 'O' | 'A' | 'B' | 'AB';
+
+// ABO donor -> ABO recipients. Plasma is the inverse of red cells: AB is the universal plasma donor.
+const RED_CELL_ABO: Record<AboGroup, AboGroup[]> = {
+  O: ['O', 'A', 'B', 'AB'],
+  A: ['A', 'AB'],
+  B: ['B', 'AB'],
+  AB: ['AB'],
+};
+
+const PLASMA_ABO: Record<AboGroup, AboGroup[]> = {
+  AB: ['AB', 'A', 'B', 'O'],
+  A: ['A', 'O'],
+  B: ['B', 'O'],
+  O: ['O'],
+};
+
+const aboOf = (group: BloodGroup) => group.slice(0, -1) as AboGroup;
+const isRhNegative = (group: BloodGroup) => group.endsWith('-');
+
+// Rh-negative recipients must receive Rh-negative cells
+const isRhCompatible = (donorGroup: BloodGroup, recipientGroup: BloodGroup) =>
+  isRhNegative(donorGroup) || !isRhNegative(recipientGroup);
+
+// Mirrors the rows seeded into public.blood_compatibility, keep both in sync.
+export const canDonateTo = (
+  donorGroup: BloodGroup,
+  recipientGroup: BloodGroup,
+  component: BloodComponent = 'whole_blood'
+): boolean => {
+  const donorAbo = aboOf(donorGroup);
+  const recipientAbo = aboOf(recipientGroup);
+
+  switch (component) {
+    case 'plasma':
+      return PLASMA_ABO[donorAbo].includes(recipientAbo);
+    case 'platelets':
+      return PLASMA_ABO[donorAbo].includes(recipientAbo) && isRhCompatible(donorGroup, recipientGroup);
+    default:
+      return RED_CELL_ABO[donorAbo].includes(recipientAbo) && isRhCompatible(donorGroup, recipientGroup);
+  }
+};
+
+// Blood groups whose requests for the given component a donor can satisfy
+export const getCompatibleRecipients = (
+  donorGroup: BloodGroup,
+  component: BloodComponent = 'whole_blood'
+): BloodGroup[] => BLOOD_GROUPS.filter((recipientGroup) => canDonateTo(donorGroup, recipientGroup, component));
+
+export const getMatchType = (
+  donorGroup: BloodGroup,
+  recipientGroup: BloodGroup,
+  component: BloodComponent = 'whole_blood'
+): MatchType | null => {
+  if (!canDonateTo(donorGroup, recipientGroup, component)) return null;
+  return donorGroup === recipientGroup ? 'exact' : 'compatible';
+};
@@ -0,0 +1,3 @@
+// Pending requests past their expiry are treated as expired before the scheduled sweep catches up
+export const getContactRequestStatus = (request: { status: string; expires_at: string }) =>
+  request.status === 'pending' && new Date(request.expires_at) <= new Date() ? 'expired' : request.status;
@@ -0,0 +1,78 @@
+import { format } from "date-fns";
+import { BLOOD_COMPONENT_LABELS, type BloodComponent, type BloodGroup } from "@/lib/bloodCompatibility";
+
+export interface DonationCertificateDetails {
+  donorName: string;
+  donatedOn: Date;
+  bloodGroup: BloodGroup;
+  component: BloodComponent;
+  units: number;
+  location: string;
+}
+
+const CERTIFICATE_WIDTH = 1200;
+const CERTIFICATE_HEIGHT = 850;
+// Matches --medical-red in index.css
+const MEDICAL_RED = 'hsl(346, 84%, 61%)';
+
+// Draws the certificate on a canvas so it can be saved without a server round trip
+const drawCertificate = (details: DonationCertificateDetails): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = CERTIFICATE_WIDTH;
+  canvas.height = CERTIFICATE_HEIGHT;
+  const ctx = canvas.getContext('2d');
+
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, CERTIFICATE_WIDTH, CERTIFICATE_HEIGHT);
+
+  ctx.strokeStyle = MEDICAL_RED;
+  ctx.lineWidth = 12;
+  ctx.strokeRect(30, 30, CERTIFICATE_WIDTH - 60, CERTIFICATE_HEIGHT - 60);
+  ctx.lineWidth = 2;
+  ctx.strokeRect(50, 50, CERTIFICATE_WIDTH - 100, CERTIFICATE_HEIGHT - 100);
+
+  const centerX = CERTIFICATE_WIDTH / 2;
+  ctx.textAlign = 'center';
+
+  ctx.fillStyle = MEDICAL_RED;
+  ctx.font = 'bold 36px sans-serif';
+  ctx.fillText('LifeFlow', centerX, 140);
+
+  ctx.fillStyle = '#111827';
+  ctx.font = 'bold 56px serif';
+  ctx.fillText('Certificate of Blood Donation', centerX, 240);
+
+  ctx.fillStyle = '#4b5563';
+  ctx.font = '28px sans-serif';
+  ctx.fillText('This certificate is proudly presented to', centerX, 330);
+
+  ctx.fillStyle = '#111827';
+  ctx.font = 'bold 52px serif';
+  ctx.fillText(details.donorName, centerX, 410);
+
+  ctx.fillStyle = '#4b5563';
+  ctx.font = '28px sans-serif';
+  ctx.fillText(
+    `for donating ${details.units} unit${details.units !== 1 ? 's' : ''} of ${details.bloodGroup} ${BLOOD_COMPONENT_LABELS[details.component].toLowerCase()}`,
+    centerX,
+    490
+  );
+  ctx.fillText(`at ${details.location} on ${format(details.donatedOn, 'PPP')}.`, centerX, 535);
+
+  ctx.fillStyle = MEDICAL_RED;
+  ctx.font = 'italic 30px serif';
+  ctx.fillText('Thank you for helping save a life.', centerX, 640);
+
+  ctx.fillStyle = '#9ca3af';
+  ctx.font = '20px sans-serif';
+  ctx.fillText(`Issued ${format(new Date(), 'PPP')}`, centerX, 740);
+
+  return canvas;
+};
+
+export const downloadDonationCertificate = (details: DonationCertificateDetails) => {
+  const link = document.createElement('a');
+  link.download = `lifeflow-donation-${format(details.donatedOn, 'yyyy-MM-dd')}.png`;
+  link.href = drawCertificate(details).toDataURL('image/png');
+  link.click();
+};
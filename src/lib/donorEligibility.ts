@@ -0,0 +1,28 @@
+import { differenceInCalendarDays, parseISO } from "date-fns";
+import type { BloodComponent } from "@/lib/bloodCompatibility";
+
+// Minimum days between donations, mirrors the eligible_again_on column on public.profiles
+export const DEFERRAL_DAYS: Record<BloodComponent, number> = {
+  whole_blood: 56,
+  prbc: 112,
+  plasma: 28,
+  platelets: 7,
+};
+
+// Days left until the donor may donate again, 0 when they are already eligible
+export const getDaysUntilEligible = (eligibleAgainOn?: string | null): number => {
+  if (!eligibleAgainOn) return 0;
+  return Math.max(0, differenceInCalendarDays(parseISO(eligibleAgainOn), new Date()));
+};
+
+export const isDeferred = (eligibleAgainOn?: string | null): boolean =>
+  getDaysUntilEligible(eligibleAgainOn) > 0;
+
+interface AvailabilityStatus {
+  is_available: boolean;
+  unavailable_until?: string | null;
+}
+
+// A snoozed donor becomes available again on their own once the snooze ends
+export const isAvailable = ({ is_available, unavailable_until }: AvailabilityStatus): boolean =>
+  is_available || (!!unavailable_until && new Date(unavailable_until) <= new Date());
@@ -0,0 +1,89 @@
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export const MATCH_RADII_KM = [5, 10, 25, 50] as const;
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Great-circle distance using the Haversine formula, mirrors public.distance_km()
+export const distanceKm = (from: Coordinates, to: Coordinates): number => {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+  return EARTH_RADIUS_KM * 2 * Math.asin(Math.sqrt(a));
+};
+
+// Latitude/longitude box around a point, used to narrow queries before the exact distance check
+export const getBoundingBox = ({ latitude, longitude }: Coordinates, radiusKm: number) => {
+  const latDelta = radiusKm / 111.32;
+  const lngDelta = radiusKm / (111.32 * Math.max(Math.cos(toRadians(latitude)), 0.01));
+  return {
+    minLatitude: latitude - latDelta,
+    maxLatitude: latitude + latDelta,
+    minLongitude: longitude - lngDelta,
+    maxLongitude: longitude + lngDelta,
+  };
+};
+
+interface DonorLocation {
+  district_id?: number | null;
+  district: string;
+  latitude?: number | null;
+  longitude?: number | null;
+  match_radius_km: number;
+}
+
+interface RequestLocation {
+  district_id?: number | null;
+  district: string;
+  latitude?: number | null;
+  longitude?: number | null;
+}
+
+const hasCoordinates = (location: { latitude?: number | null; longitude?: number | null }) =>
+  location.latitude != null && location.longitude != null;
+
+// Mirrors public.normalise_place_name(), used for rows that predate the district catalogue
+export const normalisePlaceName = (place: string | null | undefined) =>
+  (place || '').trim().toLowerCase().replace(/\s+/g, ' ').replace(/ (district|dist\.?)$/, '');
+
+const isSameDistrict = (donor: DonorLocation, request: RequestLocation) =>
+  donor.district_id != null && request.district_id != null
+    ? donor.district_id === request.district_id
+    : normalisePlaceName(donor.district) === normalisePlaceName(request.district);
+
+// Same district, or within the donor's radius when both sides have coordinates, mirrors public.is_within_reach()
+export const isWithinReach = (donor: DonorLocation, request: RequestLocation): boolean =>
+  isSameDistrict(donor, request) ||
+  (hasCoordinates(donor) && hasCoordinates(request) &&
+    distanceKm(donor as Coordinates, request as Coordinates) <= donor.match_radius_km);
+
+// Directions link that opens the native maps app on phones, pins exact coordinates when known
+export const getMapsUrl = (place: { name: string; address: string; latitude?: number | null; longitude?: number | null }) => {
+  const query = place.latitude != null && place.longitude != null
+    ? `${place.latitude},${place.longitude}`
+    : `${place.name}, ${place.address}`;
+  return `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(query)}`;
+};
+
+export const getCurrentPosition = (): Promise<Coordinates> =>
+  new Promise((resolve, reject) => {
+    if (!navigator.geolocation) {
+      reject(new Error('Location is not supported by this browser'));
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      (position) => resolve({
+        latitude: position.coords.latitude,
+        longitude: position.coords.longitude,
+      }),
+      (error) => reject(new Error(error.message || 'Unable to get your location')),
+      { enableHighAccuracy: false, timeout: 10000, maximumAge: 5 * 60 * 1000 }
+    );
+  });
@@ -0,0 +1,17 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Hospital } from '@/hooks/useHospitals';
+
+// Request RPCs return a bare hospital_id, so load the listed hospitals in one query and attach them to their requests
+export const attachHospitals = async <T extends { hospital_id: string | null }>(
+  requests: T[]
+): Promise<(T & { hospital: Hospital | null })[]> => {
+  const hospitalIds = [...new Set(requests.map(request => request.hospital_id).filter(Boolean))];
+  const { data: hospitals } = hospitalIds.length > 0
+    ? await supabase.from('hospitals').select('*').in('id', hospitalIds)
+    : { data: [] as Hospital[] };
+
+  return requests.map(request => ({
+    ...request,
+    hospital: hospitals?.find(hospital => hospital.id === request.hospital_id) ?? null,
+  }));
+};
@@ -0,0 +1,7 @@
+// Tiles come from OpenStreetMap unless VITE_MAP_TILE_URL points at a self-hosted tile server
+export const MAP_TILE_URL = import.meta.env.VITE_MAP_TILE_URL || 'https://tile.openstreetmap.org/{z}/{x}/{y}.png';
+
+export const MAP_TILE_ATTRIBUTION = import.meta.env.VITE_MAP_TILE_ATTRIBUTION ||
+  '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
+
+export const MAP_MAX_ZOOM = Number(import.meta.env.VITE_MAP_MAX_ZOOM) || 19;
@@ -0,0 +1,12 @@
+import { Constants, type Database } from "@/integrations/supabase/types";
+
+export type CancellationReason = Database["public"]["Enums"]["request_cancellation_reason"];
+
+export const CANCELLATION_REASONS = Constants.public.Enums.request_cancellation_reason;
+
+export const CANCELLATION_REASON_LABELS: Record<CancellationReason, string> = {
+  fulfilled_elsewhere: 'Blood arranged elsewhere',
+  patient_discharged: 'Patient discharged',
+  no_longer_needed: 'No longer needed',
+  other: 'Other',
+};
@@ -0,0 +1,78 @@
+import { Constants, type Database } from "@/integrations/supabase/types";
+
+export type RequestUrgency = Database["public"]["Enums"]["request_urgency"];
+
+export const REQUEST_URGENCIES = Constants.public.Enums.request_urgency;
+
+export const URGENCY_LABELS: Record<RequestUrgency, string> = {
+  critical: 'Critical (needed now)',
+  within_24h: 'Within 24 hours',
+  scheduled: 'Scheduled',
+};
+
+// How long a request stays active, mirrors public.set_request_expiry()
+export const URGENCY_ACTIVE_WINDOW: Record<RequestUrgency, string> = {
+  critical: '12 hours',
+  within_24h: '24 hours',
+  scheduled: 'until the scheduled date',
+};
+
+// Marker colours on the requests map, critical matches --medical-red-dark and within 24h --warning-orange
+export const URGENCY_COLORS: Record<RequestUrgency, string> = {
+  critical: 'hsl(346, 84%, 51%)',
+  within_24h: 'hsl(38, 92%, 50%)',
+  scheduled: 'hsl(217, 91%, 60%)',
+};
+
+export const URGENCY_RANK: Record<RequestUrgency, number> = {
+  critical: 0,
+  within_24h: 1,
+  scheduled: 2,
+};
+
+interface SortableRequest {
+  urgency: RequestUrgency;
+  created_at: string;
+}
+
+// Most urgent first, newest first within the same urgency
+export const compareByUrgency = (a: SortableRequest, b: SortableRequest) =>
+  URGENCY_RANK[a.urgency] - URGENCY_RANK[b.urgency] ||
+  new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
+
+export const formatTimeRemaining = (expiresAt: string) => {
+  const now = new Date();
+  const expires = new Date(expiresAt);
+  const hoursRemaining = Math.floor((expires.getTime() - now.getTime()) / (1000 * 60 * 60));
+
+  if (hoursRemaining < 1) {
+    const minutesRemaining = Math.floor((expires.getTime() - now.getTime()) / (1000 * 60));
+    return `${minutesRemaining}m left`;
+  }
+  if (hoursRemaining >= 48) {
+    return `${Math.floor(hoursRemaining / 24)}d left`;
+  }
+  return `${hoursRemaining}h left`;
+};
+
+// Requesters are prompted to extend this close to expiry, mirrors the expiry warning push
+export const EXPIRY_WARNING_HOURS = 2;
+
+export const isExpiringSoon = (expiresAt: string) =>
+  new Date(expiresAt).getTime() - Date.now() <= EXPIRY_WARNING_HOURS * 60 * 60 * 1000;
+
+// Extension choices and lifetime cap, mirrors public.extend_request()
+export const EXTENSION_HOURS = [12, 24, 48] as const;
+export const MAX_REQUEST_LIFETIME_DAYS = 7;
+
+export const getExtendedExpiry = (request: { expires_at: string }, hours: number) =>
+  new Date(Math.max(new Date(request.expires_at).getTime(), Date.now()) + hours * 60 * 60 * 1000);
+
+// Scheduled requests can be posted weeks ahead, so the cap counts from when blood is needed if that is later
+export const canExtendBy = (
+  request: { created_at: string; expires_at: string; needed_by?: string | null },
+  hours: number
+) =>
+  getExtendedExpiry(request, hours).getTime() <=
+    Math.max(new Date(request.created_at).getTime(), request.needed_by ? new Date(request.needed_by).getTime() : 0) +
+      MAX_REQUEST_LIFETIME_DAYS * 24 * 60 * 60 * 1000;
@@ -3,6 +3,22 @@ import { z } from 'zod';
 // Blood group enum validation
 export const bloodGroupSchema = z.enum(['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-']);
 
+// Blood component enum validation
+export const bloodComponentSchema = z.enum(['whole_blood', 'prbc', 'platelets', 'plasma']);
+
+// Request urgency enum validation
+export const requestUrgencySchema = z.enum(['critical', 'within_24h', 'scheduled']);
+
+// Coordinate validation
+export const latitudeSchema = z.number().min(-90).max(90);
+export const longitudeSchema = z.number().min(-180).max(180);
+
+// Districts are picked from the canonical catalogue rather than typed in
+export const districtIdSchema = z
+  .number({ required_error: "Select your district", invalid_type_error: "Select your district" })
+  .int()
+  .positive({ message: "Select your district" });
+
 // User registration validation
 export const signUpSchema = z.object({
   email: z
@@ -25,16 +41,7 @@ export const signUpSchema = z.object({
     .trim()
     .regex(/^\+?[\d\s\-()]{10,15}$/, { message: "Invalid phone number format" })
     .max(20, { message: "Phone number too long" }),
-  district: z
-    .string()
-    .trim()
-    .min(2, { message: "District must be at least 2 characters" })
-    .max(50, { message: "District must be less than 50 characters" }),
-  state: z
-    .string()
-    .trim()
-    .min(2, { message: "State must be at least 2 characters" })
-    .max(50, { message: "State must be less than 50 characters" }),
+  district_id: districtIdSchema,
   blood_group: bloodGroupSchema
 });
 
@@ -73,22 +80,44 @@ export const profileUpdateSchema = z.object({
     .trim()
     .regex(/^\+?[\d\s\-()]{10,15}$/, { message: "Invalid phone number format" })
     .max(20, { message: "Phone number too long" }),
-  district: z
-    .string()
-    .trim()
-    .min(2, { message: "District must be at least 2 characters" })
-    .max(50, { message: "District must be less than 50 characters" }),
-  state: z
-    .string()
-    .trim()
-    .min(2, { message: "State must be at least 2 characters" })
-    .max(50, { message: "State must be less than 50 characters" }),
-  blood_group: bloodGroupSchema
+  district_id: districtIdSchema,
+  blood_group: bloodGroupSchema,
+  donatable_components: z
+    .array(bloodComponentSchema)
+    .min(1, { message: "Select at least one component you can donate" }),
+  last_donation_date: z
+    .coerce
+    .date()
+    .refine((date) => date <= new Date(), { message: "Last donation date cannot be in the future" })
+    .optional(),
+  last_donation_component: bloodComponentSchema.optional(),
+  latitude: latitudeSchema.nullable().optional(),
+  longitude: longitudeSchema.nullable().optional(),
+  match_radius_km: z
+    .coerce
+    .number()
+    .refine((radius) => [5, 10, 25, 50].includes(radius), { message: "Choose a radius of 5, 10, 25 or 50 km" })
 });
 
 // Blood request validation
 export const bloodRequestSchema = z.object({
   blood_group: bloodGroupSchema,
+  component: bloodComponentSchema,
+  units_needed: z
+    .coerce
+    .number()
+    .int({ message: "Units must be a whole number" })
+    .min(1, { message: "At least 1 unit is required" })
+    .max(10, { message: "A single request can ask for at most 10 units" }),
+  urgency: requestUrgencySchema,
+  needed_by: z
+    .coerce
+    .date()
+    .optional(),
+  district_id: districtIdSchema,
+  hospital_id: z.string().uuid().nullable().optional(),
+  latitude: latitudeSchema.nullable().optional(),
+  longitude: longitudeSchema.nullable().optional(),
   location_description: z
     .string()
     .trim()
@@ -99,7 +128,10 @@ export const bloodRequestSchema = z.object({
     .trim()
     .max(1000, { message: "Message must be less than 1000 characters" })
     .optional()
-});
+}).refine(
+  (data) => data.urgency !== 'scheduled' || (data.needed_by && data.needed_by > new Date()),
+  { message: "Scheduled requests need a future date", path: ["needed_by"] }
+);
 
 // Contact request validation
 export const contactRequestSchema = z.object({
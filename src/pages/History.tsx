@@ -0,0 +1,278 @@
+import { useState, useEffect, useCallback } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { AppLayout } from "@/components/Layout/AppLayout";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import type { Database } from "@/integrations/supabase/types";
+import { ArrowLeft, Award, CheckCircle, Droplets, Heart, History as HistoryIcon, MapPin } from "lucide-react";
+import { User as SupabaseUser } from "@supabase/supabase-js";
+import { BLOOD_COMPONENT_LABELS } from "@/lib/bloodCompatibility";
+import { downloadDonationCertificate } from "@/lib/donationCertificate";
+
+type DonationHistoryEntry = Database["public"]["Functions"]["get_my_donation_history"]["Returns"][number];
+
+// A donation counts once the requester has confirmed units were given
+const isConfirmedDonation = (entry: DonationHistoryEntry) =>
+  !!entry.requester_confirmed_at && entry.confirmed_units > 0;
+
+const getDonationDate = (entry: DonationHistoryEntry) =>
+  new Date(entry.donor_confirmed_at || entry.requester_confirmed_at || entry.claimed_at);
+
+export const History = () => {
+  const [user, setUser] = useState<SupabaseUser | null>(null);
+  const [donorName, setDonorName] = useState("");
+  const [history, setHistory] = useState<DonationHistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const { toast } = useToast();
+  const navigate = useNavigate();
+
+  const fetchHistory = useCallback(async () => {
+    try {
+      const { data, error } = await supabase.rpc('get_my_donation_history');
+
+      if (error) throw error;
+      setHistory(data || []);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to load donation history",
+      });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    const fetchDonorName = async (userId: string) => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('full_name')
+        .eq('user_id', userId)
+        .single();
+
+      if (error) throw error;
+      setDonorName(data.full_name);
+    };
+
+    const fetchUser = async () => {
+      try {
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) {
+          navigate('/');
+          return;
+        }
+
+        setUser(user);
+        await Promise.all([fetchDonorName(user.id), fetchHistory()]);
+      } catch (error) {
+        toast({
+          variant: "destructive",
+          title: "Error",
+          description: "Failed to load user data",
+        });
+        navigate('/');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchUser();
+  }, [navigate, toast, fetchHistory]);
+
+  const handleConfirmMyDonation = async (claimId: string) => {
+    try {
+      const { error } = await supabase.rpc('confirm_my_donation', {
+        target_claim_id: claimId
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Thank You for Donating!",
+        description: "Your donation has been recorded and your recovery period has started.",
+      });
+
+      fetchHistory();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to confirm your donation.",
+      });
+    }
+  };
+
+  const handleDownloadCertificate = (entry: DonationHistoryEntry) => {
+    downloadDonationCertificate({
+      donorName,
+      donatedOn: getDonationDate(entry),
+      bloodGroup: entry.blood_group,
+      component: entry.component,
+      units: entry.confirmed_units,
+      location: entry.location_description || entry.district,
+    });
+  };
+
+  const renderStatus = (entry: DonationHistoryEntry) => {
+    if (isConfirmedDonation(entry)) {
+      return (
+        <Badge variant="outline" className="border-success text-success">
+          Donated {entry.confirmed_units} unit{entry.confirmed_units !== 1 ? 's' : ''}
+        </Badge>
+      );
+    }
+    if (entry.requester_confirmed_at) {
+      return <Badge variant="outline">Not donated</Badge>;
+    }
+    if (entry.request_status === 'cancelled') {
+      return <Badge variant="outline">Request cancelled</Badge>;
+    }
+    if (entry.request_status === 'expired') {
+      return <Badge variant="outline">Request expired</Badge>;
+    }
+    return <Badge variant="secondary">Awaiting confirmation</Badge>;
+  };
+
+  const confirmedDonations = history.filter(isConfirmedDonation);
+  const totalUnits = confirmedDonations.reduce((total, entry) => total + entry.confirmed_units, 0);
+
+  if (isLoading || !user) {
+    return (
+      <AppLayout user={user}>
+        <div className="flex items-center justify-center min-h-[400px]">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-medical-red mx-auto mb-4"></div>
+            <p className="text-muted-foreground">Loading history...</p>
+          </div>
+        </div>
+      </AppLayout>
+    );
+  }
+
+  return (
+    <AppLayout user={user}>
+      <div className="max-w-2xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-center gap-3">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => navigate('/')}
+            className="flex items-center gap-2"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Back to Dashboard
+          </Button>
+        </div>
+
+        {/* Lifetime Totals */}
+        <Card className="border-0 shadow-soft">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <HistoryIcon className="h-5 w-5" />
+              Donation History
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-3 gap-4 text-center">
+              <div>
+                <p className="text-3xl font-bold text-medical-red">{confirmedDonations.length}</p>
+                <p className="text-sm text-muted-foreground">Donations</p>
+              </div>
+              <div>
+                <p className="text-3xl font-bold text-medical-red">{totalUnits}</p>
+                <p className="text-sm text-muted-foreground">Units donated</p>
+              </div>
+              <div>
+                <p className="text-3xl font-bold text-medical-red">{history.length}</p>
+                <p className="text-sm text-muted-foreground">Offers to help</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {history.length === 0 ? (
+          <Card className="border-0 shadow-soft">
+            <CardContent className="text-center py-12">
+              <Heart className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-lg text-muted-foreground">No donations yet</p>
+              <p className="text-sm text-muted-foreground mt-1">
+                Requests you offer to help with will show up here
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid gap-4">
+            {history.map((entry) => (
+              <Card key={entry.claim_id} className="border-0 shadow-soft">
+                <CardContent className="p-6 space-y-3">
+                  <div className="flex justify-between items-start">
+                    <div className="flex items-center gap-3">
+                      <div className="bg-medical-red p-2 rounded-lg">
+                        <Droplets className="h-5 w-5 text-white" />
+                      </div>
+                      <div>
+                        <h4 className="font-semibold text-foreground">
+                          {entry.requester_name}
+                        </h4>
+                        <div className="flex items-center gap-2">
+                          <Badge variant="secondary" className="bg-medical-red text-white">
+                            {entry.blood_group}
+                          </Badge>
+                          <Badge variant="secondary">
+                            {BLOOD_COMPONENT_LABELS[entry.component]}
+                          </Badge>
+                        </div>
+                      </div>
+                    </div>
+                    <div className="flex flex-col items-end gap-1">
+                      {renderStatus(entry)}
+                      <span className="text-sm text-muted-foreground">
+                        {getDonationDate(entry).toLocaleDateString(undefined, {
+                          year: 'numeric',
+                          month: 'short',
+                          day: 'numeric'
+                        })}
+                      </span>
+                    </div>
+                  </div>
+
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <MapPin className="h-4 w-4" />
+                    {entry.district} • {entry.location_description}
+                  </div>
+
+                  {isConfirmedDonation(entry) && (
+                    <Button
+                      variant="outline"
+                      onClick={() => handleDownloadCertificate(entry)}
+                      className="w-full"
+                    >
+                      <Award className="h-4 w-4 mr-2" />
+                      Download Certificate
+                    </Button>
+                  )}
+                  {/* The only place a donor can confirm once the request closes, whatever the requester recorded */}
+                  {!entry.donor_confirmed_at && entry.request_status !== 'cancelled' && (
+                    <Button
+                      variant="outline"
+                      onClick={() => handleConfirmMyDonation(entry.claim_id)}
+                      className="w-full"
+                    >
+                      <CheckCircle className="h-4 w-4 mr-2" />
+                      I've Donated
+                    </Button>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </AppLayout>
+  );
+};
+
+export default History;
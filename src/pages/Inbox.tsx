@@ -0,0 +1,98 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { AppLayout } from "@/components/Layout/AppLayout";
+import { ContactRequestList } from "@/components/ContactRequest/ContactRequestList";
+import { SentContactRequestList } from "@/components/ContactRequest/SentContactRequestList";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft, Inbox as InboxIcon, Send } from "lucide-react";
+import { User as SupabaseUser } from "@supabase/supabase-js";
+
+export const Inbox = () => {
+  const [user, setUser] = useState<SupabaseUser | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const { toast } = useToast();
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    const fetchUser = async () => {
+      try {
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) {
+          navigate('/');
+          return;
+        }
+
+        setUser(user);
+      } catch (error) {
+        toast({
+          variant: "destructive",
+          title: "Error",
+          description: "Failed to load user data",
+        });
+        navigate('/');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchUser();
+  }, [navigate, toast]);
+
+  if (isLoading || !user) {
+    return (
+      <AppLayout user={user}>
+        <div className="flex items-center justify-center min-h-[400px]">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-medical-red mx-auto mb-4"></div>
+            <p className="text-muted-foreground">Loading inbox...</p>
+          </div>
+        </div>
+      </AppLayout>
+    );
+  }
+
+  return (
+    <AppLayout user={user}>
+      <div className="max-w-2xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-center gap-3">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => navigate('/')}
+            className="flex items-center gap-2"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Back to Dashboard
+          </Button>
+        </div>
+
+        <Tabs defaultValue="received" className="w-full">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="received" className="flex items-center gap-2">
+              <InboxIcon className="h-4 w-4" />
+              Received
+            </TabsTrigger>
+            <TabsTrigger value="sent" className="flex items-center gap-2">
+              <Send className="h-4 w-4" />
+              Sent
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="received" className="space-y-4">
+            <ContactRequestList userId={user.id} />
+          </TabsContent>
+
+          <TabsContent value="sent" className="space-y-4">
+            <SentContactRequestList userId={user.id} />
+          </TabsContent>
+        </Tabs>
+      </div>
+    </AppLayout>
+  );
+};
+
+export default Inbox;
@@ -7,11 +7,17 @@ import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
 import { AppLayout } from "@/components/Layout/AppLayout";
+import { DistrictCombobox } from "@/components/Location/DistrictCombobox";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
-import { User, Edit3, Save, ArrowLeft } from "lucide-react";
+import { User, Edit3, Save, ArrowLeft, LocateFixed } from "lucide-react";
 import { User as SupabaseUser } from "@supabase/supabase-js";
+import { BLOOD_COMPONENTS, BLOOD_COMPONENT_LABELS, type BloodComponent } from "@/lib/bloodCompatibility";
+import { DEFERRAL_DAYS, getDaysUntilEligible } from "@/lib/donorEligibility";
+import { getCurrentPosition, MATCH_RADII_KM } from "@/lib/geolocation";
+import { parseISO } from "date-fns";
 
 interface Profile {
   id: string;
@@ -20,16 +26,29 @@ interface Profile {
   phone: string;
   district: string;
   state: string;
+  district_id: number | null;
   blood_group: string;
+  donatable_components: BloodComponent[];
+  last_donation_date: string | null;
+  last_donation_component: BloodComponent | null;
+  eligible_again_on: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  match_radius_km: number;
   created_at: string;
 }
 
 interface ProfileFormData {
   full_name: string;
   phone: string;
-  district: string;
-  state: string;
+  district_id: number | null;
   blood_group: string;
+  donatable_components: BloodComponent[];
+  last_donation_date: string;
+  last_donation_component: BloodComponent | '';
+  latitude: number | null;
+  longitude: number | null;
+  match_radius_km: number;
 }
 
 export const Profile = () => {
@@ -38,10 +57,15 @@ export const Profile = () => {
   const [isEditing, setIsEditing] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
+  const [isLocating, setIsLocating] = useState(false);
   const { toast } = useToast();
   const navigate = useNavigate();
 
-  const { register, handleSubmit, setValue, formState: { errors } } = useForm<ProfileFormData>();
+  const { register, handleSubmit, setValue, watch, formState: { errors } } = useForm<ProfileFormData>();
+  const selectedComponents = watch('donatable_components') || [];
+  const latitude = watch('latitude');
+  const longitude = watch('longitude');
+  const districtId = watch('district_id');
 
   const bloodGroups = ['O+', 'O-', 'A+', 'A-', 'B+', 'B-', 'AB+', 'AB-'];
 
@@ -86,9 +110,14 @@ export const Profile = () => {
       // Populate form with current data
       setValue('full_name', data.full_name);
       setValue('phone', data.phone);
-      setValue('district', data.district);
-      setValue('state', data.state);
+      setValue('district_id', data.district_id);
       setValue('blood_group', data.blood_group);
+      setValue('donatable_components', data.donatable_components);
+      setValue('last_donation_date', data.last_donation_date || '');
+      setValue('last_donation_component', data.last_donation_component || '');
+      setValue('latitude', data.latitude);
+      setValue('longitude', data.longitude);
+      setValue('match_radius_km', data.match_radius_km);
       
     } catch (error: any) {
       toast({
@@ -99,8 +128,61 @@ export const Profile = () => {
     }
   };
 
+  const captureCurrentLocation = async () => {
+    setIsLocating(true);
+    try {
+      const position = await getCurrentPosition();
+      setValue('latitude', position.latitude);
+      setValue('longitude', position.longitude);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Location unavailable",
+        description: error instanceof Error ? error.message : "Unable to get your location",
+      });
+    } finally {
+      setIsLocating(false);
+    }
+  };
+
+  const toggleComponent = (component: BloodComponent, checked: boolean) => {
+    setValue(
+      'donatable_components',
+      checked
+        ? [...selectedComponents, component]
+        : selectedComponents.filter(c => c !== component)
+    );
+  };
+
   const onSubmit = async (data: ProfileFormData) => {
     if (!user) return;
+
+    if (!data.district_id) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Select your district from the list",
+      });
+      return;
+    }
+
+    if (!data.donatable_components?.length) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Select at least one component you can donate",
+      });
+      return;
+    }
+
+    if (data.last_donation_date && !data.last_donation_component) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Select what you donated last time",
+      });
+      return;
+    }
     
     setIsSaving(true);
     try {
@@ -109,9 +191,15 @@ export const Profile = () => {
         .update({
           full_name: data.full_name,
           phone: data.phone,
-          district: data.district,
-          state: data.state,
+          // District and state names are filled in from the catalogue
+          district_id: data.district_id,
           blood_group: data.blood_group as any,
+          donatable_components: data.donatable_components,
+          last_donation_date: data.last_donation_date || null,
+          last_donation_component: data.last_donation_date ? data.last_donation_component || null : null,
+          latitude: data.latitude,
+          longitude: data.longitude,
+          match_radius_km: data.match_radius_km,
         })
         .eq('user_id', user.id);
 
@@ -229,6 +317,52 @@ export const Profile = () => {
                     <Label className="text-sm font-medium text-muted-foreground">State</Label>
                     <p className="text-lg">{profile.state}</p>
                   </div>
+
+                  <div>
+                    <Label className="text-sm font-medium text-muted-foreground">Last Donation</Label>
+                    <p className="text-lg">
+                      {profile.last_donation_date && profile.last_donation_component
+                        ? `${parseISO(profile.last_donation_date).toLocaleDateString('en-US', {
+                            year: 'numeric',
+                            month: 'long',
+                            day: 'numeric'
+                          })} (${BLOOD_COMPONENT_LABELS[profile.last_donation_component]})`
+                        : 'Not recorded'}
+                    </p>
+                  </div>
+
+                  <div>
+                    <Label className="text-sm font-medium text-muted-foreground">Eligible to Donate</Label>
+                    <p className="text-lg">
+                      {getDaysUntilEligible(profile.eligible_again_on) > 0
+                        ? `Again on ${parseISO(profile.eligible_again_on).toLocaleDateString('en-US', {
+                            year: 'numeric',
+                            month: 'long',
+                            day: 'numeric'
+                          })}`
+                        : 'Now'}
+                    </p>
+                  </div>
+
+                  <div className="md:col-span-2">
+                    <Label className="text-sm font-medium text-muted-foreground">Matching Area</Label>
+                    <p className="text-lg">
+                      {profile.latitude != null
+                        ? `Your district and within ${profile.match_radius_km} km of your saved location`
+                        : 'Your district only'}
+                    </p>
+                  </div>
+
+                  <div className="md:col-span-2">
+                    <Label className="text-sm font-medium text-muted-foreground">Willing to Donate</Label>
+                    <div className="flex flex-wrap gap-2 mt-1">
+                      {profile.donatable_components.map((component) => (
+                        <Badge key={component} variant="secondary">
+                          {BLOOD_COMPONENT_LABELS[component]}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
                 </div>
 
                 <div className="mt-6 pt-4 border-t border-border">
@@ -268,25 +402,19 @@ export const Profile = () => {
                     )}
                   </div>
 
-                  <div className="space-y-2">
-                    <Label htmlFor="district">District</Label>
-                    <Input
-                      id="district"
-                      {...register("district", { required: "District is required" })}
-                    />
-                    {errors.district && (
-                      <p className="text-sm text-destructive">{errors.district.message}</p>
-                    )}
-                  </div>
-
-                  <div className="space-y-2">
-                    <Label htmlFor="state">State</Label>
-                    <Input
-                      id="state"
-                      {...register("state", { required: "State is required" })}
+                  <div className="space-y-2 md:col-span-2">
+                    <Label htmlFor="district_id">District</Label>
+                    <DistrictCombobox
+                      id="district_id"
+                      value={districtId}
+                      onChange={(district) => setValue('district_id', district.id)}
                     />
-                    {errors.state && (
-                      <p className="text-sm text-destructive">{errors.state.message}</p>
+                    {!districtId && (
+                      <p className="text-sm text-muted-foreground">
+                        {profile.district
+                          ? `We couldn't match "${profile.district}, ${profile.state}" to our district list. Please pick your district.`
+                          : "Pick your district so nearby requests reach you."}
+                      </p>
                     )}
                   </div>
                 </div>
@@ -310,6 +438,103 @@ export const Profile = () => {
                   </Select>
                 </div>
 
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="last_donation_date">Last Donation Date</Label>
+                    <Input
+                      id="last_donation_date"
+                      type="date"
+                      max={new Date().toISOString().split('T')[0]}
+                      {...register("last_donation_date")}
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="last_donation_component">Last Donated</Label>
+                    <Select
+                      defaultValue={profile.last_donation_component || undefined}
+                      onValueChange={(value) => setValue("last_donation_component", value as BloodComponent)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="What did you donate?" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {BLOOD_COMPONENTS.map((component) => (
+                          <SelectItem key={component} value={component}>
+                            {BLOOD_COMPONENT_LABELS[component]} ({DEFERRAL_DAYS[component]} day wait)
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Matching Area</Label>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={captureCurrentLocation}
+                      disabled={isLocating}
+                    >
+                      <LocateFixed className="h-4 w-4 mr-2" />
+                      {isLocating ? "Locating..." : latitude != null ? "Update My Location" : "Use My Location"}
+                    </Button>
+                    {latitude != null && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        onClick={() => {
+                          setValue('latitude', null);
+                          setValue('longitude', null);
+                        }}
+                      >
+                        Clear
+                      </Button>
+                    )}
+                    <Select
+                      value={String(watch('match_radius_km'))}
+                      onValueChange={(value) => setValue('match_radius_km', Number(value))}
+                      disabled={latitude == null}
+                    >
+                      <SelectTrigger className="w-32">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {MATCH_RADII_KM.map((radius) => (
+                          <SelectItem key={radius} value={String(radius)}>
+                            {radius} km
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {latitude != null
+                      ? `Location saved (${latitude.toFixed(3)}, ${longitude?.toFixed(3)}). You'll see requests in your district and within this radius.`
+                      : "Share your location to also see requests near you across district borders."}
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Willing to Donate</Label>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                    {BLOOD_COMPONENTS.map((component) => (
+                      <div key={component} className="flex items-center gap-2">
+                        <Checkbox
+                          id={`component-${component}`}
+                          checked={selectedComponents.includes(component)}
+                          onCheckedChange={(checked) => toggleComponent(component, checked === true)}
+                        />
+                        <Label htmlFor={`component-${component}`} className="font-normal">
+                          {BLOOD_COMPONENT_LABELS[component]}
+                        </Label>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
                 <div className="flex gap-3 pt-4">
                   <Button
                     type="button"
@@ -0,0 +1,372 @@
+import { useState, useEffect, useCallback } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AppLayout } from "@/components/Layout/AppLayout";
+import { DistrictCombobox } from "@/components/Location/DistrictCombobox";
+import { HospitalCard } from "@/components/Location/HospitalCard";
+import { UrgencyBadge } from "@/components/Dashboard/DonorRequestCard";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import type { DistrictOption } from "@/hooks/useDistricts";
+import type { Hospital } from "@/hooks/useHospitals";
+import type { Database } from "@/integrations/supabase/types";
+import { ArrowLeft, Bell, Clock, Droplets, Eye, MapPin, Plus, Trash2 } from "lucide-react";
+import { User as SupabaseUser } from "@supabase/supabase-js";
+import { BLOOD_COMPONENT_LABELS, type BloodGroup } from "@/lib/bloodCompatibility";
+import { compareByUrgency, formatTimeRemaining } from "@/lib/requestUrgency";
+import { attachHospitals } from "@/lib/hospitals";
+
+type Watch = Database["public"]["Tables"]["favourites"]["Row"] & {
+  districts: { states: { name: string } | null } | null;
+};
+
+type WatchlistRequest = Database["public"]["Functions"]["get_watchlist_requests"]["Returns"][number] & {
+  hospital: Hospital | null;
+};
+
+const ANY_BLOOD_GROUP = 'any';
+const MAX_WATCHES = 10;
+
+export const Watchlist = () => {
+  const [user, setUser] = useState<SupabaseUser | null>(null);
+  const [watches, setWatches] = useState<Watch[]>([]);
+  const [requests, setRequests] = useState<WatchlistRequest[]>([]);
+  const [newDistrict, setNewDistrict] = useState<DistrictOption | null>(null);
+  const [newBloodGroup, setNewBloodGroup] = useState<string>(ANY_BLOOD_GROUP);
+  const [newNotify, setNewNotify] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const { toast } = useToast();
+  const navigate = useNavigate();
+
+  const bloodGroups = ['O+', 'O-', 'A+', 'A-', 'B+', 'B-', 'AB+', 'AB-'];
+
+  const fetchWatches = useCallback(async (userId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('favourites')
+        .select('*, districts(states(name))')
+        .eq('user_id', userId)
+        .order('created_at');
+
+      if (error) throw error;
+      setWatches(data || []);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to load your watchlist",
+      });
+    }
+  }, [toast]);
+
+  const fetchRequests = useCallback(async () => {
+    try {
+      const { data, error } = await supabase.rpc('get_watchlist_requests');
+
+      if (error) throw error;
+
+      const requestsWithHospitals = await attachHospitals(data || []);
+      setRequests(requestsWithHospitals.sort(compareByUrgency));
+    } catch (error) {
+      console.error('Error fetching watchlist requests:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    const fetchUser = async () => {
+      try {
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) {
+          navigate('/');
+          return;
+        }
+
+        setUser(user);
+        await Promise.all([fetchWatches(user.id), fetchRequests()]);
+      } catch (error) {
+        toast({
+          variant: "destructive",
+          title: "Error",
+          description: "Failed to load user data",
+        });
+        navigate('/');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchUser();
+  }, [navigate, toast, fetchWatches, fetchRequests]);
+
+  const handleAddWatch = async () => {
+    if (!user || !newDistrict) return;
+
+    setIsSaving(true);
+    try {
+      const { error } = await supabase
+        .from('favourites')
+        .insert({
+          user_id: user.id,
+          district_id: newDistrict.id,
+          district: newDistrict.name,
+          blood_group: newBloodGroup === ANY_BLOOD_GROUP ? null : newBloodGroup as BloodGroup,
+          notify: newNotify,
+        });
+
+      if (error) throw error;
+
+      toast({
+        title: "Added to Watchlist",
+        description: `You'll see ${newBloodGroup === ANY_BLOOD_GROUP ? 'all' : newBloodGroup} requests in ${newDistrict.name} here.`,
+      });
+
+      setNewDistrict(null);
+      setNewBloodGroup(ANY_BLOOD_GROUP);
+      setNewNotify(false);
+      await Promise.all([fetchWatches(user.id), fetchRequests()]);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        // The per-user limit is enforced by a trigger with a readable message
+        description: error?.message?.includes('at most')
+          ? error.message
+          : "Failed to add to watchlist. You may already be watching this.",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleNotify = async (watch: Watch, notify: boolean) => {
+    try {
+      const { error } = await supabase
+        .from('favourites')
+        .update({ notify })
+        .eq('id', watch.id);
+
+      if (error) throw error;
+      setWatches(prev => prev.map(item => item.id === watch.id ? { ...item, notify } : item));
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to update notifications",
+      });
+    }
+  };
+
+  const handleRemoveWatch = async (watch: Watch) => {
+    try {
+      const { error } = await supabase
+        .from('favourites')
+        .delete()
+        .eq('id', watch.id);
+
+      if (error) throw error;
+      setWatches(prev => prev.filter(item => item.id !== watch.id));
+      fetchRequests();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to remove from watchlist",
+      });
+    }
+  };
+
+  if (isLoading || !user) {
+    return (
+      <AppLayout user={user}>
+        <div className="flex items-center justify-center min-h-[400px]">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-medical-red mx-auto mb-4"></div>
+            <p className="text-muted-foreground">Loading watchlist...</p>
+          </div>
+        </div>
+      </AppLayout>
+    );
+  }
+
+  return (
+    <AppLayout user={user}>
+      <div className="max-w-2xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-center gap-3">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => navigate('/')}
+            className="flex items-center gap-2"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Back to Dashboard
+          </Button>
+        </div>
+
+        {/* Saved Filters */}
+        <Card className="border-0 shadow-soft">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Eye className="h-5 w-5" />
+              Watchlist
+            </CardTitle>
+            <p className="text-sm text-muted-foreground">
+              Follow requests for other blood groups and districts, for example when coordinating donors for a community.
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {watches.map((watch) => (
+              <div key={watch.id} className="flex items-center justify-between gap-3 border rounded-lg p-3">
+                <div className="flex items-center gap-2 min-w-0">
+                  <Badge variant="secondary" className="bg-medical-red text-white shrink-0">
+                    {watch.blood_group || 'Any'}
+                  </Badge>
+                  <span className="truncate text-foreground">
+                    {watch.district}{watch.districts?.states ? `, ${watch.districts.states.name}` : ''}
+                  </span>
+                </div>
+                <div className="flex items-center gap-3 shrink-0">
+                  <div className="flex items-center gap-2">
+                    <Bell className="h-4 w-4 text-muted-foreground" />
+                    <Switch
+                      checked={watch.notify}
+                      onCheckedChange={(checked) => handleToggleNotify(watch, checked)}
+                      aria-label="Push notifications"
+                    />
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => handleRemoveWatch(watch)}
+                    className="text-muted-foreground hover:text-destructive"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+
+            {watches.length < MAX_WATCHES ? (
+              <div className="space-y-3 border-t pt-4">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                  <div className="space-y-2 md:col-span-2">
+                    <Label htmlFor="watchDistrict">District</Label>
+                    <DistrictCombobox
+                      id="watchDistrict"
+                      value={newDistrict?.id}
+                      onChange={setNewDistrict}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="watchBloodGroup">Blood Group</Label>
+                    <Select value={newBloodGroup} onValueChange={setNewBloodGroup}>
+                      <SelectTrigger id="watchBloodGroup">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ANY_BLOOD_GROUP}>Any</SelectItem>
+                        {bloodGroups.map((group) => (
+                          <SelectItem key={group} value={group}>{group}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <Switch id="watchNotify" checked={newNotify} onCheckedChange={setNewNotify} />
+                    <Label htmlFor="watchNotify" className="font-normal">Send me push notifications</Label>
+                  </div>
+                  <Button
+                    onClick={handleAddWatch}
+                    disabled={!newDistrict || isSaving}
+                    className="bg-gradient-primary hover:opacity-90"
+                  >
+                    <Plus className="h-4 w-4 mr-2" />
+                    {isSaving ? "Adding..." : "Add"}
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                You're watching the maximum of {MAX_WATCHES} combinations. Remove one to add another.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Matching Requests */}
+        <h3 className="text-xl font-semibold text-foreground">Matching Requests ({requests.length})</h3>
+
+        {requests.length === 0 ? (
+          <Card className="border-0 shadow-soft">
+            <CardContent className="text-center py-12">
+              <Droplets className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-lg text-muted-foreground">No open requests match your watchlist</p>
+              <p className="text-sm text-muted-foreground mt-1">
+                {watches.length === 0
+                  ? "Add a district and blood group above to start watching"
+                  : "New requests will show up here as they are posted"}
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid gap-4">
+            {requests.map((request) => (
+              <Card key={request.id} className="border-0 shadow-soft">
+                <CardContent className="p-6 space-y-3">
+                  <div className="flex justify-between items-start">
+                    <div>
+                      <h4 className="font-semibold text-foreground">{request.requester_name}</h4>
+                      <div className="flex items-center gap-2">
+                        <Badge variant="secondary" className="bg-medical-red text-white">
+                          {request.blood_group}
+                        </Badge>
+                        <Badge variant="secondary">
+                          {BLOOD_COMPONENT_LABELS[request.component]}
+                        </Badge>
+                      </div>
+                    </div>
+                    <div className="flex flex-col items-end gap-1">
+                      <UrgencyBadge request={request} />
+                      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                        <Clock className="h-4 w-4" />
+                        {formatTimeRemaining(request.expires_at)}
+                      </div>
+                    </div>
+                  </div>
+
+                  {request.hospital && (
+                    <HospitalCard hospital={request.hospital} note={request.location_description} />
+                  )}
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <MapPin className="h-4 w-4" />
+                    {request.district}, {request.state}{!request.hospital && request.location_description && ` • ${request.location_description}`}
+                  </div>
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <Droplets className="h-4 w-4" />
+                    {request.units_needed} unit{request.units_needed !== 1 ? 's' : ''} needed
+                  </div>
+                  {request.message && (
+                    <p className="text-sm text-foreground bg-soft-gray p-3 rounded-lg">
+                      "{request.message}"
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </AppLayout>
+  );
+};
+
+export default Watchlist;
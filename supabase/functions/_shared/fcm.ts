@@ -0,0 +1,201 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+export interface PushNotification {
+  title: string;
+  body: string;
+}
+
+export interface AndroidDeliveryOptions {
+  channelId: string;
+  priority: 'high' | 'normal';
+}
+
+export interface PushResult {
+  userId: string;
+  token: string;
+  success: boolean;
+  result?: unknown;
+  error?: string;
+}
+
+// Send a push to every Android device registered by the given users
+export async function sendPushToUsers(
+  supabase: SupabaseClient,
+  userIds: string[],
+  notification: PushNotification,
+  data: Record<string, string>,
+  android?: AndroidDeliveryOptions
+): Promise<PushResult[]> {
+  if (userIds.length === 0) {
+    return [];
+  }
+
+  const { data: userTokens, error: tokensError } = await supabase
+    .from('user_tokens')
+    .select('token, user_id')
+    .in('user_id', userIds)
+    .eq('platform', 'android');
+
+  if (tokensError) {
+    throw new Error(`Failed to fetch user tokens: ${tokensError.message}`);
+  }
+
+  console.log(`Found ${userTokens?.length || 0} device tokens`);
+
+  if (!userTokens || userTokens.length === 0) {
+    return [];
+  }
+
+  // Get Firebase service account
+  const serviceAccountJson = Deno.env.get('FIREBASE_SERVICE_ACCOUNT_JSON');
+  if (!serviceAccountJson) {
+    throw new Error('Firebase service account not configured');
+  }
+
+  const serviceAccount = JSON.parse(serviceAccountJson);
+
+  // Get Firebase access token
+  const accessToken = await getFirebaseAccessToken(serviceAccount);
+
+  // Send notifications to each device
+  const notificationResults: PushResult[] = [];
+
+  for (const userToken of userTokens) {
+    try {
+      const result = await sendFirebaseNotification(
+        accessToken,
+        userToken.token,
+        notification,
+        data,
+        android
+      );
+
+      notificationResults.push({
+        userId: userToken.user_id,
+        token: userToken.token,
+        success: true,
+        result
+      });
+
+      console.log(`Notification sent successfully to user ${userToken.user_id}`);
+    } catch (error) {
+      console.error(`Failed to send notification to user ${userToken.user_id}:`, error);
+      notificationResults.push({
+        userId: userToken.user_id,
+        token: userToken.token,
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  return notificationResults;
+}
+
+export async function getFirebaseAccessToken(serviceAccount: any): Promise<string> {
+  // Create JWT for Firebase
+  const now = Math.floor(Date.now() / 1000);
+  const payload = {
+    iss: serviceAccount.client_email,
+    scope: 'https://www.googleapis.com/auth/firebase.messaging',
+    aud: 'https://oauth2.googleapis.com/token',
+    iat: now,
+    exp: now + 3600
+  };
+
+  // Create JWT header and payload
+  const header = {
+    alg: 'RS256',
+    typ: 'JWT'
+  };
+
+  const headerB64 = btoa(JSON.stringify(header));
+  const payloadB64 = btoa(JSON.stringify(payload));
+  
+  // Import private key
+  const keyData = serviceAccount.private_key.replace(/\\n/g, '\n');
+  const key = await crypto.subtle.importKey(
+    'pkcs8',
+    new TextEncoder().encode(keyData),
+    {
+      name: 'RSASSA-PKCS1-v1_5',
+      hash: 'SHA-256'
+    },
+    false,
+    ['sign']
+  );
+
+  // Sign the JWT
+  const signature = await crypto.subtle.sign(
+    'RSASSA-PKCS1-v1_5',
+    key,
+    new TextEncoder().encode(`${headerB64}.${payloadB64}`)
+  );
+
+  const signatureB64 = btoa(String.fromCharCode(...new Uint8Array(signature)));
+  const jwt = `${headerB64}.${payloadB64}.${signatureB64}`;
+
+  // Exchange JWT for access token
+  const tokenResponse = await fetch('https://oauth2.googleapis.com/token', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded'
+    },
+    body: `grant_type=urn:ietf:params:oauth:grant-type:jwt-bearer&assertion=${jwt}`
+  });
+
+  if (!tokenResponse.ok) {
+    throw new Error(`Failed to get access token: ${tokenResponse.statusText}`);
+  }
+
+  const tokenData = await tokenResponse.json();
+  return tokenData.access_token;
+}
+
+export async function sendFirebaseNotification(
+  accessToken: string, 
+  deviceToken: string, 
+  notification: { title: string; body: string }, 
+  data: Record<string, string>,
+  android: AndroidDeliveryOptions = { channelId: 'blood_requests', priority: 'high' }
+) {
+  const projectId = 'blood-donation-604b0';
+  
+  const payload = {
+    message: {
+      token: deviceToken,
+      notification: {
+        title: notification.title,
+        body: notification.body
+      },
+      data: data,
+      android: {
+        priority: android.priority,
+        notification: {
+          click_action: 'FLUTTER_NOTIFICATION_CLICK',
+          channel_id: android.channelId,
+          notification_priority: android.priority === 'high' ? 'PRIORITY_MAX' : 'PRIORITY_DEFAULT'
+        }
+      }
+    }
+  };
+
+  const response = await fetch(
+    `https://fcm.googleapis.com/v1/projects/${projectId}/messages:send`,
+    {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(payload)
+    }
+  );
+
+  if (!response.ok) {
+    const errorData = await response.text();
+    throw new Error(`Firebase notification failed: ${response.status} - ${errorData}`);
+  }
+
+  return await response.json();
+}
\ No newline at end of file
@@ -0,0 +1,55 @@
+// Largest radius a donor can choose, used to narrow the profile query before the exact check
+export const MAX_MATCH_RADIUS_KM = 50;
+
+interface Located {
+  district_id?: number | null;
+  district: string;
+  latitude?: number | null;
+  longitude?: number | null;
+}
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Great-circle distance using the Haversine formula, mirrors public.distance_km()
+export function distanceKm(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.asin(Math.sqrt(a));
+}
+
+export function getBoundingBox(latitude: number, longitude: number, radiusKm: number) {
+  const latDelta = radiusKm / 111.32;
+  const lngDelta = radiusKm / (111.32 * Math.max(Math.cos(toRadians(latitude)), 0.01));
+  return {
+    minLatitude: latitude - latDelta,
+    maxLatitude: latitude + latDelta,
+    minLongitude: longitude - lngDelta,
+    maxLongitude: longitude + lngDelta,
+  };
+}
+
+// Mirrors public.normalise_place_name(), used for rows that predate the district catalogue
+export function normalisePlaceName(place: string | null | undefined): string {
+  return (place || '').trim().toLowerCase().replace(/\s+/g, ' ').replace(/ (district|dist\.?)$/, '');
+}
+
+function isSameDistrict(donor: Located, request: Located): boolean {
+  if (donor.district_id != null && request.district_id != null) {
+    return donor.district_id === request.district_id;
+  }
+  return normalisePlaceName(donor.district) === normalisePlaceName(request.district);
+}
+
+// Same district, or within the donor's radius when both sides have coordinates, mirrors public.is_within_reach()
+export function isWithinReach(donor: Located & { match_radius_km: number }, request: Located): boolean {
+  if (isSameDistrict(donor, request)) {
+    return true;
+  }
+  if (donor.latitude == null || donor.longitude == null || request.latitude == null || request.longitude == null) {
+    return false;
+  }
+  return distanceKm(donor.latitude, donor.longitude, request.latitude, request.longitude) <= donor.match_radius_km;
+}
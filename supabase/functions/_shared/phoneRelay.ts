@@ -0,0 +1,135 @@
+export interface RelayParticipant {
+  name: string;
+  phone: string;
+}
+
+export interface RelaySession {
+  sessionId: string;
+  // The number the donor dials to reach the requester, and the one the requester dials to reach the donor
+  donorProxyNumber: string;
+  requesterProxyNumber: string;
+}
+
+// A masked calling service. Providers hand out proxy numbers that forward to the real phones until the session
+// expires or is released, so neither side ever sees the other's number
+export interface PhoneRelayProvider {
+  name: string;
+  createSession(
+    uniqueName: string,
+    requester: RelayParticipant,
+    donor: RelayParticipant,
+    expiresAt: Date
+  ): Promise<RelaySession>;
+  releaseSession(sessionId: string): Promise<void>;
+}
+
+// Numbers are stored as typed by users, providers need E.164. Ten digit numbers are assumed to be Indian
+export const toE164 = (phone: string) => {
+  const digits = phone.replace(/[^\d]/g, '');
+  if (phone.trim().startsWith('+')) return `+${digits}`;
+  if (digits.length === 10) return `+91${digits}`;
+  return `+${digits}`;
+};
+
+// Hands out numbers from the 555-01xx range reserved for fiction and never connects a call.
+// Used for local development and tests so no real session is ever created, only when PHONE_RELAY_PROVIDER=fake
+export const fakePhoneRelayProvider: PhoneRelayProvider = {
+  name: 'fake',
+  async createSession(uniqueName) {
+    const sessionId = `fake_${crypto.randomUUID()}`;
+    console.log(`Fake relay session ${sessionId} created for ${uniqueName}`);
+    const suffix = (index: number) => String((parseInt(sessionId.slice(5, 7), 16) + index) % 100).padStart(2, '0');
+    return {
+      sessionId,
+      donorProxyNumber: `+1555010${suffix(0)}`,
+      requesterProxyNumber: `+1555010${suffix(1)}`,
+    };
+  },
+  async releaseSession(sessionId) {
+    console.log(`Fake relay session ${sessionId} released`);
+  },
+};
+
+// Twilio Proxy, configured with TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and TWILIO_PROXY_SERVICE_SID
+const createTwilioProxyProvider = (): PhoneRelayProvider => {
+  const accountSid = Deno.env.get('TWILIO_ACCOUNT_SID');
+  const authToken = Deno.env.get('TWILIO_AUTH_TOKEN');
+  const serviceSid = Deno.env.get('TWILIO_PROXY_SERVICE_SID');
+  if (!accountSid || !authToken || !serviceSid) {
+    throw new Error('Twilio Proxy is not configured');
+  }
+
+  const baseUrl = `https://proxy.twilio.com/v1/Services/${serviceSid}/Sessions`;
+  const authorization = `Basic ${btoa(`${accountSid}:${authToken}`)}`;
+
+  const twilioRequest = async (url: string, method: string, params?: Record<string, string>) => {
+    const response = await fetch(url, {
+      method,
+      headers: {
+        'Authorization': authorization,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: params ? new URLSearchParams(params).toString() : undefined,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Twilio Proxy request failed: ${response.status} ${errorText}`);
+    }
+
+    return response.status === 204 ? null : await response.json();
+  };
+
+  return {
+    name: 'twilio',
+    async createSession(uniqueName, requester, donor, expiresAt) {
+      const session = await twilioRequest(baseUrl, 'POST', {
+        UniqueName: uniqueName,
+        DateExpiry: expiresAt.toISOString(),
+        Mode: 'voice-and-message',
+      });
+
+      try {
+        // Each participant's proxy identifier is the number they use to reach the other participant
+        const requesterParticipant = await twilioRequest(`${baseUrl}/${session.sid}/Participants`, 'POST', {
+          Identifier: toE164(requester.phone),
+          FriendlyName: requester.name,
+        });
+        const donorParticipant = await twilioRequest(`${baseUrl}/${session.sid}/Participants`, 'POST', {
+          Identifier: toE164(donor.phone),
+          FriendlyName: donor.name,
+        });
+
+        return {
+          sessionId: session.sid,
+          donorProxyNumber: donorParticipant.proxy_identifier,
+          requesterProxyNumber: requesterParticipant.proxy_identifier,
+        };
+      } catch (error) {
+        await twilioRequest(`${baseUrl}/${session.sid}`, 'DELETE').catch(() => undefined);
+        throw error;
+      }
+    },
+    async releaseSession(sessionId) {
+      await twilioRequest(`${baseUrl}/${sessionId}`, 'DELETE');
+    },
+  };
+};
+
+const providerFactories: Record<string, () => PhoneRelayProvider> = {
+  fake: () => fakePhoneRelayProvider,
+  twilio: createTwilioProxyProvider,
+};
+
+// Pick the provider named by PHONE_RELAY_PROVIDER. There is no default, claimants rely on the relay to reach the
+// requester so a deploy that forgot to configure it must fail loudly instead of handing out fake numbers
+export function getPhoneRelayProvider(name = Deno.env.get('PHONE_RELAY_PROVIDER')): PhoneRelayProvider {
+  if (!name) {
+    throw new Error('PHONE_RELAY_PROVIDER is not configured');
+  }
+  const factory = providerFactories[name];
+  if (!factory) {
+    throw new Error(`Unknown phone relay provider: ${name}`);
+  }
+  return factory();
+}
@@ -0,0 +1,61 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/cors.ts';
+import { getPhoneRelayProvider } from '../_shared/phoneRelay.ts';
+import { connect, RelayError, releaseExpiredRelays } from './relay.ts';
+
+type RelayAction = 'connect' | 'release_expired';
+
+interface RelayBody {
+  action?: RelayAction;
+  requestId?: string;
+  donorId?: string;
+}
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { action = 'connect', requestId, donorId } = await req.json() as RelayBody;
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const authorization = req.headers.get('Authorization') ?? '';
+
+    if (action === 'release_expired') {
+      // Only triggered by pg_cron with the service role key
+      if (authorization !== `Bearer ${supabaseServiceKey}`) {
+        return jsonResponse({ success: false, error: 'Not authorized' }, 403);
+      }
+      const released = await releaseExpiredRelays(supabase);
+      return jsonResponse({ success: true, message: `Released ${released} phone relays` });
+    }
+
+    const { data: { user } } = await supabase.auth.getUser(authorization.replace('Bearer ', ''));
+    if (!user) {
+      throw new RelayError('Not authorized', 401);
+    }
+    if (!requestId) {
+      throw new RelayError('Request ID is required', 400);
+    }
+
+    const relay = await connect(supabase, getPhoneRelayProvider(), user.id, requestId, donorId);
+    return jsonResponse({ success: true, relay });
+
+  } catch (error) {
+    console.error('Error in phone-relay:', error);
+    return jsonResponse(
+      { success: false, error: error instanceof Error ? error.message : String(error) },
+      error instanceof RelayError ? error.status : 500
+    );
+  }
+});
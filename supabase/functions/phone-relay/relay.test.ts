@@ -0,0 +1,205 @@
+import { assertEquals, assertNotEquals, assertRejects } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { fakePhoneRelayProvider, type PhoneRelayProvider } from '../_shared/phoneRelay.ts';
+import { connect, RelayError } from './relay.ts';
+
+// Run with `npm run test:functions`
+
+type Row = Record<string, unknown>;
+
+// Just enough of the query builder for connect, backed by in-memory tables
+class FakeQuery {
+  private filters: ((row: Row) => boolean)[] = [];
+  private mode: 'select' | 'update' | 'insert' = 'select';
+  private values: Row = {};
+
+  constructor(private rows: Row[], private uniqueColumns: string[] = []) {}
+
+  select() {
+    return this;
+  }
+
+  eq(column: string, value: unknown) {
+    this.filters.push(row => row[column] === value);
+    return this;
+  }
+
+  is(column: string, value: unknown) {
+    this.filters.push(row => (row[column] ?? null) === value);
+    return this;
+  }
+
+  update(values: Row) {
+    this.mode = 'update';
+    this.values = values;
+    return this;
+  }
+
+  insert(values: Row) {
+    this.mode = 'insert';
+    this.values = values;
+    return this;
+  }
+
+  private run(): Row[] {
+    if (this.mode === 'insert') {
+      const duplicate = this.uniqueColumns.length > 0 &&
+        this.rows.some(row => this.uniqueColumns.every(column => row[column] === this.values[column]));
+      if (duplicate) {
+        throw { code: '23505', message: 'duplicate key value violates unique constraint' };
+      }
+      const inserted = { id: crypto.randomUUID(), ...this.values };
+      this.rows.push(inserted);
+      return [inserted];
+    }
+
+    const matched = this.rows.filter(row => this.filters.every(filter => filter(row)));
+    if (this.mode === 'update') {
+      matched.forEach(row => Object.assign(row, this.values));
+    }
+    return matched;
+  }
+
+  single() {
+    const rows = this.run();
+    return Promise.resolve(rows.length === 1
+      ? { data: rows[0], error: null }
+      : { data: null, error: { message: 'Expected a single row' } });
+  }
+
+  maybeSingle() {
+    try {
+      return Promise.resolve({ data: this.run()[0] ?? null, error: null });
+    } catch (error) {
+      return Promise.resolve({ data: null, error });
+    }
+  }
+
+  then<T>(resolve: (result: { data: Row[]; error: null }) => T) {
+    return resolve({ data: this.run(), error: null });
+  }
+}
+
+const REQUESTER_ID = 'requester';
+const CLAIMANT_ID = 'claimant';
+const STRANGER_ID = 'stranger';
+
+const createFakeSupabase = (requestOverrides: Row = {}) => {
+  const tables: Record<string, Row[]> = {
+    requests: [{
+      id: 'request',
+      requester_id: REQUESTER_ID,
+      requester_name: 'Requester',
+      requester_phone: '+919000000001',
+      status: 'open',
+      expires_at: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+      ...requestOverrides,
+    }],
+    claims: [{ id: 'claim', request_id: 'request', donor_id: CLAIMANT_ID }],
+    profiles: [
+      { user_id: CLAIMANT_ID, full_name: 'Claimant', phone: '+919000000002' },
+      { user_id: STRANGER_ID, full_name: 'Stranger', phone: '+919000000003' },
+    ],
+    phone_relays: [],
+  };
+
+  const uniqueColumns: Record<string, string[]> = { phone_relays: ['request_id', 'donor_id'] };
+  const supabase = {
+    from: (table: string) => new FakeQuery(tables[table], uniqueColumns[table]),
+  } as unknown as SupabaseClient;
+  return { supabase, tables };
+};
+
+Deno.test('a claimant gets a relay number that lasts as long as the request', async () => {
+  const { supabase, tables } = createFakeSupabase();
+
+  const relay = await connect(supabase, fakePhoneRelayProvider, CLAIMANT_ID, 'request');
+
+  assertEquals(tables.phone_relays.length, 1);
+  assertEquals(relay.proxyNumber, tables.phone_relays[0].donor_proxy_number);
+  assertEquals(relay.expiresAt, tables.requests[0].expires_at);
+});
+
+Deno.test('the requester reaches the same relay from the other side', async () => {
+  const { supabase, tables } = createFakeSupabase();
+
+  const donorRelay = await connect(supabase, fakePhoneRelayProvider, CLAIMANT_ID, 'request');
+  const requesterRelay = await connect(supabase, fakePhoneRelayProvider, REQUESTER_ID, 'request', CLAIMANT_ID);
+
+  assertEquals(tables.phone_relays.length, 1);
+  assertEquals(requesterRelay.proxyNumber, tables.phone_relays[0].requester_proxy_number);
+  assertEquals(donorRelay.expiresAt, requesterRelay.expiresAt);
+});
+
+Deno.test('a donor without a claim is refused with 403', async () => {
+  const { supabase, tables } = createFakeSupabase();
+
+  const error = await assertRejects(
+    () => connect(supabase, fakePhoneRelayProvider, STRANGER_ID, 'request'),
+    RelayError
+  );
+
+  assertEquals(error.status, 403);
+  assertEquals(tables.phone_relays.length, 0);
+});
+
+Deno.test('a closed request is refused with 409', async () => {
+  const { supabase, tables } = createFakeSupabase({ status: 'fulfilled' });
+
+  const error = await assertRejects(
+    () => connect(supabase, fakePhoneRelayProvider, CLAIMANT_ID, 'request'),
+    RelayError
+  );
+
+  assertEquals(error.status, 409);
+  assertEquals(tables.phone_relays.length, 0);
+});
+
+Deno.test('an expired request is refused with 409', async () => {
+  const { supabase } = createFakeSupabase({ expires_at: new Date(Date.now() - 1000).toISOString() });
+
+  const error = await assertRejects(
+    () => connect(supabase, fakePhoneRelayProvider, CLAIMANT_ID, 'request'),
+    RelayError
+  );
+
+  assertEquals(error.status, 409);
+});
+
+Deno.test('concurrent connects share one session and close the one that lost', async () => {
+  const { supabase, tables } = createFakeSupabase();
+  const openSessions = new Set<string>();
+  const countingProvider: PhoneRelayProvider = {
+    name: 'fake',
+    async createSession(...args) {
+      const session = await fakePhoneRelayProvider.createSession(...args);
+      openSessions.add(session.sessionId);
+      return session;
+    },
+    async releaseSession(sessionId) {
+      openSessions.delete(sessionId);
+    },
+  };
+
+  const [first, second] = await Promise.all([
+    connect(supabase, countingProvider, CLAIMANT_ID, 'request'),
+    connect(supabase, countingProvider, CLAIMANT_ID, 'request'),
+  ]);
+
+  assertEquals(tables.phone_relays.length, 1);
+  assertEquals(first.proxyNumber, second.proxyNumber);
+  assertEquals([...openSessions], [tables.phone_relays[0].provider_session_id]);
+});
+
+Deno.test('an expired relay is swapped for a new session and the old one is closed', async () => {
+  const { supabase, tables } = createFakeSupabase();
+  await connect(supabase, fakePhoneRelayProvider, CLAIMANT_ID, 'request');
+  const staleSessionId = tables.phone_relays[0].provider_session_id;
+  tables.phone_relays[0].expires_at = new Date(Date.now() - 1000).toISOString();
+
+  await connect(supabase, fakePhoneRelayProvider, CLAIMANT_ID, 'request');
+
+  assertEquals(tables.phone_relays.length, 1);
+  assertEquals(tables.phone_relays[0].expires_at, tables.requests[0].expires_at);
+  assertNotEquals(tables.phone_relays[0].provider_session_id, staleSessionId);
+});
@@ -0,0 +1,197 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getPhoneRelayProvider, type PhoneRelayProvider } from '../_shared/phoneRelay.ts';
+
+export interface PhoneRelay {
+  id: string;
+  provider: string;
+  provider_session_id: string;
+  donor_proxy_number: string;
+  requester_proxy_number: string;
+  expires_at: string;
+  released_at: string | null;
+}
+
+const RELAY_COLUMNS = 'id, provider, provider_session_id, donor_proxy_number, requester_proxy_number, expires_at, released_at';
+
+export class RelayError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+// Return the caller's proxy number for a request, creating a session when there is no live one.
+// Requesters pass the donor they want to reach, donors can only reach the requester of a request they claimed
+export async function connect(
+  supabase: SupabaseClient,
+  provider: PhoneRelayProvider,
+  userId: string,
+  requestId: string,
+  donorId?: string
+) {
+  const { data: request, error: requestError } = await supabase
+    .from('requests')
+    .select('id, requester_id, requester_name, requester_phone, status, expires_at')
+    .eq('id', requestId)
+    .single();
+
+  if (requestError || !request) {
+    throw new RelayError('Request not found', 404);
+  }
+  if (request.status !== 'open' || new Date(request.expires_at) <= new Date()) {
+    throw new RelayError('This request is no longer open', 409);
+  }
+
+  const isRequester = request.requester_id === userId;
+  const relayDonorId = isRequester ? donorId : userId;
+  if (!relayDonorId) {
+    throw new RelayError('Donor ID is required', 400);
+  }
+
+  const { data: claim } = await supabase
+    .from('claims')
+    .select('id')
+    .eq('request_id', requestId)
+    .eq('donor_id', relayDonorId)
+    .maybeSingle();
+
+  if (!claim) {
+    throw new RelayError('Only donors who offered to help can be reached through the relay', 403);
+  }
+
+  let relay = await findRelay(supabase, requestId, relayDonorId);
+  if (!relay || relay.released_at || new Date(relay.expires_at) <= new Date()) {
+    // An extended request outlives its first session, so swap in a fresh one
+    relay = await createRelay(supabase, provider, request, relayDonorId, relay);
+  }
+
+  return {
+    proxyNumber: isRequester ? relay.requester_proxy_number : relay.donor_proxy_number,
+    expiresAt: relay.expires_at,
+  };
+}
+
+async function findRelay(supabase: SupabaseClient, requestId: string, donorId: string) {
+  const { data: relay, error } = await supabase
+    .from('phone_relays')
+    .select(RELAY_COLUMNS)
+    .eq('request_id', requestId)
+    .eq('donor_id', donorId)
+    .maybeSingle<PhoneRelay>();
+
+  if (error) {
+    throw new Error(`Failed to fetch phone relay: ${error.message}`);
+  }
+  return relay;
+}
+
+// Two connect calls for the same claim can both get here. Each creates a provider session, only the first to save
+// its row keeps it and the other closes its own session and returns the winner's
+async function createRelay(
+  supabase: SupabaseClient,
+  provider: PhoneRelayProvider,
+  request: { id: string; requester_id: string; requester_name: string; requester_phone: string; expires_at: string },
+  donorId: string,
+  staleRelay: PhoneRelay | null
+): Promise<PhoneRelay> {
+  const { data: donor } = await supabase
+    .from('profiles')
+    .select('full_name, phone')
+    .eq('user_id', donorId)
+    .single();
+
+  if (!donor?.phone) {
+    throw new RelayError('The donor has no phone number on file', 409);
+  }
+
+  // Sessions end with the request, the trigger on requests also cuts them short when it closes early
+  const expiresAt = new Date(request.expires_at);
+  const session = await provider.createSession(
+    `${request.id}:${donorId}:${Date.now()}`,
+    { name: request.requester_name, phone: request.requester_phone },
+    { name: donor.full_name, phone: donor.phone },
+    expiresAt
+  );
+
+  const values = {
+    request_id: request.id,
+    donor_id: donorId,
+    requester_id: request.requester_id,
+    provider: provider.name,
+    provider_session_id: session.sessionId,
+    donor_proxy_number: session.donorProxyNumber,
+    requester_proxy_number: session.requesterProxyNumber,
+    expires_at: expiresAt.toISOString(),
+    released_at: null,
+  };
+
+  // A new row loses on the unique (request_id, donor_id) key, a swap loses when the stale session was already replaced
+  const { data: relay, error } = staleRelay
+    ? await supabase
+      .from('phone_relays')
+      .update(values)
+      .eq('id', staleRelay.id)
+      .eq('provider_session_id', staleRelay.provider_session_id)
+      .select(RELAY_COLUMNS)
+      .maybeSingle<PhoneRelay>()
+    : await supabase
+      .from('phone_relays')
+      .insert(values)
+      .select(RELAY_COLUMNS)
+      .maybeSingle<PhoneRelay>();
+
+  if (!relay) {
+    await provider.releaseSession(session.sessionId).catch(() => undefined);
+
+    const winner = error && error.code !== '23505' ? null : await findRelay(supabase, request.id, donorId);
+    if (!winner) {
+      throw new Error(`Failed to save phone relay: ${error?.message}`);
+    }
+    return winner;
+  }
+
+  if (staleRelay && !staleRelay.released_at) {
+    await getPhoneRelayProvider(staleRelay.provider).releaseSession(staleRelay.provider_session_id)
+      .catch(releaseError => console.error('Failed to release replaced phone relay session:', releaseError));
+  }
+
+  console.log(`Created ${provider.name} phone relay for request ${request.id} and donor ${donorId}`);
+  return relay;
+}
+
+async function releaseRelay(supabase: SupabaseClient, relay: PhoneRelay) {
+  await getPhoneRelayProvider(relay.provider).releaseSession(relay.provider_session_id);
+
+  const { error } = await supabase
+    .from('phone_relays')
+    .update({ released_at: new Date().toISOString() })
+    .eq('id', relay.id);
+
+  if (error) {
+    throw new Error(`Failed to mark phone relay released: ${error.message}`);
+  }
+}
+
+export async function releaseExpiredRelays(supabase: SupabaseClient) {
+  const { data: relays, error } = await supabase
+    .from('phone_relays')
+    .select(RELAY_COLUMNS)
+    .is('released_at', null)
+    .lte('expires_at', new Date().toISOString());
+
+  if (error) {
+    throw new Error(`Failed to fetch expired phone relays: ${error.message}`);
+  }
+
+  let released = 0;
+  for (const relay of (relays || []) as PhoneRelay[]) {
+    try {
+      await releaseRelay(supabase, relay);
+      released++;
+    } catch (releaseError) {
+      console.error(`Failed to release phone relay ${relay.id}:`, releaseError);
+    }
+  }
+
+  console.log(`Released ${released}/${relays?.length || 0} expired phone relays`);
+  return released;
+}
@@ -1,19 +1,70 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/cors.ts';
+import { sendPushToUsers, type PushResult } from '../_shared/fcm.ts';
+import { getBoundingBox, isWithinReach, MAX_MATCH_RADIUS_KM, normalisePlaceName } from '../_shared/geo.ts';
+
+const componentLabels: Record<string, string> = {
+  whole_blood: 'Whole blood',
+  prbc: 'Packed red cells',
+  platelets: 'Platelets',
+  plasma: 'Plasma',
+};
+
+// Android channel, delivery priority and title per request urgency
+const urgencyNotificationSettings: Record<string, { title: string; channelId: string; priority: 'high' | 'normal' }> = {
+  critical: { title: "🚨 Critical Blood Request", channelId: 'blood_requests_critical', priority: 'high' },
+  within_24h: { title: "🩸 New Blood Request", channelId: 'blood_requests', priority: 'high' },
+  scheduled: { title: "📅 Scheduled Blood Request", channelId: 'blood_requests_scheduled', priority: 'normal' },
+};
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+type NotificationType =
+  | 'new_request'
+  | 'request_cancelled'
+  | 'request_extended'
+  | 'scheduled_reminders'
+  | 'recurring_requests'
+  | 'request_expiry'
+  | 'new_message';
+
+const cancellationReasonLabels: Record<string, string> = {
+  fulfilled_elsewhere: 'Blood was arranged elsewhere',
+  patient_discharged: 'The patient has been discharged',
+  no_longer_needed: 'It is no longer needed',
+  other: 'It was cancelled by the requester',
 };
 
+// Batch jobs triggered by pg_cron rather than by a user action
+const batchTypes: NotificationType[] = ['scheduled_reminders', 'recurring_requests', 'request_expiry'];
+
+// Requesters are warned this long before their request expires, matching the web app's extend prompt
+const EXPIRY_WARNING_HOURS = 2;
+
 interface BloodRequest {
   id: string;
   blood_group: string;
+  component: string;
+  units_needed: number;
+  urgency: string;
+  needed_by?: string;
+  district_id?: number | null;
   district: string;
   state: string;
+  latitude?: number | null;
+  longitude?: number | null;
+  requester_id: string;
   requester_name: string;
+  hospital?: { name: string } | null;
   location_description?: string;
+  status: string;
+  expires_at: string;
+  cancellation_reason?: string;
+}
+
+interface NotificationOutcome {
+  message: string;
+  results?: PushResult[];
 }
 
 serve(async (req) => {
@@ -22,259 +73,624 @@ serve(async (req) => {
   }
 
   try {
-    const { requestId } = await req.json();
-    
-    if (!requestId) {
-      throw new Error('Request ID is required');
-    }
+    const { requestId, messageId, type = 'new_request' } = await req.json() as {
+      requestId?: string;
+      messageId?: string;
+      type?: NotificationType;
+    };
 
     // Initialize Supabase client
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    console.log(`Processing notifications for request: ${requestId}`);
-
-    // Get the blood request details
-    const { data: request, error: requestError } = await supabase
-      .from('requests')
-      .select('*')
-      .eq('id', requestId)
-      .single();
-
-    if (requestError || !request) {
-      throw new Error(`Failed to fetch request: ${requestError?.message}`);
-    }
-
-    console.log(`Blood request details:`, request);
-
-    // Get eligible users (same logic as the requests tab)
-    // Users who can see the request: same district, same blood group, not the requester
-    const { data: eligibleUsers, error: usersError } = await supabase
-      .from('profiles')
-      .select('user_id, full_name')
-      .eq('district', request.district)
-      .eq('blood_group', request.blood_group)
-      .neq('user_id', request.requester_id);
-
-    if (usersError) {
-      throw new Error(`Failed to fetch eligible users: ${usersError.message}`);
-    }
-
-    console.log(`Found ${eligibleUsers?.length || 0} eligible users`);
-
-    if (!eligibleUsers || eligibleUsers.length === 0) {
-      return new Response(
-        JSON.stringify({ 
-          success: true, 
-          message: 'No eligible users found for notifications' 
-        }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    // Get device tokens for eligible users
-    const userIds = eligibleUsers.map(user => user.user_id);
-    const { data: userTokens, error: tokensError } = await supabase
-      .from('user_tokens')
-      .select('token, user_id')
-      .in('user_id', userIds)
-      .eq('platform', 'android');
-
-    if (tokensError) {
-      throw new Error(`Failed to fetch user tokens: ${tokensError.message}`);
-    }
-
-    console.log(`Found ${userTokens?.length || 0} device tokens`);
+    let outcome: NotificationOutcome;
 
-    if (!userTokens || userTokens.length === 0) {
+    // Batch jobs are only triggered by pg_cron with the service role key
+    if (batchTypes.includes(type) && req.headers.get('Authorization') !== `Bearer ${supabaseServiceKey}`) {
       return new Response(
-        JSON.stringify({ 
-          success: true, 
-          message: 'No device tokens found for eligible users' 
-        }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        JSON.stringify({ success: false, error: 'Not authorized' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    // Get Firebase service account
-    const serviceAccountJson = Deno.env.get('FIREBASE_SERVICE_ACCOUNT_JSON');
-    if (!serviceAccountJson) {
-      throw new Error('Firebase service account not configured');
-    }
-
-    const serviceAccount = JSON.parse(serviceAccountJson);
-
-    // Get Firebase access token
-    const accessToken = await getFirebaseAccessToken(serviceAccount);
-
-    // Send notifications to each device
-    const notificationResults = [];
-    const notificationPayload = {
-      title: "🩸 New Blood Request",
-      body: `${request.blood_group} blood needed in ${request.district}. Help save a life!`
-    };
-
-    for (const userToken of userTokens) {
-      try {
-        const result = await sendFirebaseNotification(
-          accessToken,
-          userToken.token,
-          notificationPayload,
-          {
-            requestId: request.id,
-            action: "VIEW_REQUEST"
-          }
-        );
-        
-        notificationResults.push({
-          userId: userToken.user_id,
-          token: userToken.token,
-          success: true,
-          result
-        });
-
-        console.log(`Notification sent successfully to user ${userToken.user_id}`);
-      } catch (error) {
-        console.error(`Failed to send notification to user ${userToken.user_id}:`, error);
-        notificationResults.push({
-          userId: userToken.user_id,
-          token: userToken.token,
-          success: false,
-          error: error instanceof Error ? error.message : String(error)
-        });
+    if (type === 'scheduled_reminders') {
+      outcome = await sendScheduledReminders(supabase);
+    } else if (type === 'recurring_requests') {
+      outcome = await materialiseRecurringRequests(supabase);
+    } else if (type === 'request_expiry') {
+      outcome = await sendExpiryNotices(supabase);
+    } else if (type === 'new_message') {
+      if (!messageId) {
+        throw new Error('Message ID is required');
+      }
+      outcome = await notifyMessageRecipient(supabase, messageId);
+    } else {
+      if (!requestId) {
+        throw new Error('Request ID is required');
+      }
+      if (type === 'request_cancelled') {
+        outcome = await notifyClaimantsOfCancellation(supabase, requestId);
+      } else if (type === 'request_extended') {
+        outcome = await notifyDonorsStillNeeded(supabase, requestId);
+      } else {
+        outcome = await notifyEligibleDonors(supabase, requestId);
       }
     }
 
-    const successCount = notificationResults.filter(r => r.success).length;
-    console.log(`Sent ${successCount}/${notificationResults.length} notifications successfully`);
-
     return new Response(
-      JSON.stringify({ 
-        success: true, 
-        message: `Sent ${successCount} notifications`,
-        results: notificationResults
-      }),
+      JSON.stringify({ success: true, ...outcome }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
 
   } catch (error) {
     console.error('Error in send-blood-request-notifications:', error);
     return new Response(
-      JSON.stringify({ 
-        success: false, 
-        error: error instanceof Error ? error.message : String(error) 
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
       }),
-      { 
+      {
         status: 500,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       }
     );
   }
 });
 
-async function getFirebaseAccessToken(serviceAccount: any): Promise<string> {
-  // Create JWT for Firebase
-  const now = Math.floor(Date.now() / 1000);
-  const payload = {
-    iss: serviceAccount.client_email,
-    scope: 'https://www.googleapis.com/auth/firebase.messaging',
-    aud: 'https://oauth2.googleapis.com/token',
-    iat: now,
-    exp: now + 3600
-  };
-
-  // Create JWT header and payload
-  const header = {
-    alg: 'RS256',
-    typ: 'JWT'
-  };
-
-  const headerB64 = btoa(JSON.stringify(header));
-  const payloadB64 = btoa(JSON.stringify(payload));
-  
-  // Import private key
-  const keyData = serviceAccount.private_key.replace(/\\n/g, '\n');
-  const key = await crypto.subtle.importKey(
-    'pkcs8',
-    new TextEncoder().encode(keyData),
+const describeNeed = (request: BloodRequest) =>
+  `${request.units_needed > 1 ? `${request.units_needed} units of ` : ''}${request.blood_group} ${(componentLabels[request.component] || 'blood').toLowerCase()}`;
+
+const formatNeededBy = (neededBy: string) =>
+  new Date(neededBy).toLocaleDateString('en-IN', { day: 'numeric', month: 'short' });
+
+const countSent = (results: PushResult[]) => {
+  const successCount = results.filter(r => r.success).length;
+  console.log(`Sent ${successCount}/${results.length} notifications successfully`);
+  return successCount;
+};
+
+// Notify every compatible donor within reach about a newly created request
+async function notifyEligibleDonors(supabase: SupabaseClient, requestId: string): Promise<NotificationOutcome> {
+  console.log(`Processing notifications for request: ${requestId}`);
+
+  // Get the blood request details
+  const { data: request, error: requestError } = await supabase
+    .from('requests')
+    .select('*, hospital:hospitals(name)')
+    .eq('id', requestId)
+    .single();
+
+  if (requestError || !request) {
+    throw new Error(`Failed to fetch request: ${requestError?.message}`);
+  }
+
+  console.log(`Blood request details:`, request);
+
+  const { eligibleUsers, districtFilter } = await findEligibleDonors(supabase, request);
+
+  const watcherResults = await notifyWatchers(
+    supabase,
+    request,
+    districtFilter,
+    eligibleUsers.map(user => user.user_id)
+  );
+
+  if (!eligibleUsers || eligibleUsers.length === 0) {
+    return watcherResults.length > 0
+      ? { message: `Sent ${countSent(watcherResults)} watchlist notifications`, results: watcherResults }
+      : { message: 'No eligible users found for notifications' };
+  }
+
+  const urgencySettings = urgencyNotificationSettings[request.urgency] || urgencyNotificationSettings.within_24h;
+  const neededWhen = request.urgency === 'scheduled' && request.needed_by
+    ? ` on ${formatNeededBy(request.needed_by)}`
+    : '';
+
+  const results = await sendPushToUsers(
+    supabase,
+    eligibleUsers.map(user => user.user_id),
     {
-      name: 'RSASSA-PKCS1-v1_5',
-      hash: 'SHA-256'
+      title: urgencySettings.title,
+      body: `${describeNeed(request)} needed ${request.hospital ? `at ${request.hospital.name}, ` : 'in '}${request.district}${neededWhen}. Help save a life!`
     },
-    false,
-    ['sign']
+    {
+      requestId: request.id,
+      urgency: request.urgency,
+      action: "VIEW_REQUEST"
+    },
+    {
+      channelId: urgencySettings.channelId,
+      priority: urgencySettings.priority
+    }
   );
 
-  // Sign the JWT
-  const signature = await crypto.subtle.sign(
-    'RSASSA-PKCS1-v1_5',
-    key,
-    new TextEncoder().encode(`${headerB64}.${payloadB64}`)
+  results.push(...watcherResults);
+
+  if (results.length === 0) {
+    return { message: 'No device tokens found for eligible users' };
+  }
+
+  return { message: `Sent ${countSent(results)} notifications`, results };
+}
+
+// Donors who can see the request (same logic as the requests tab): same district or within their radius,
+// compatible blood group, willing to donate the requested component, past their deferral period,
+// available, not the requester
+async function findEligibleDonors(supabase: SupabaseClient, request: BloodRequest) {
+  // Get donor blood groups that can give this component to the recipient from the shared compatibility table
+  const { data: compatibleDonors, error: compatibilityError } = await supabase
+    .from('blood_compatibility')
+    .select('donor_group')
+    .eq('component', request.component)
+    .eq('recipient_group', request.blood_group);
+
+  if (compatibilityError) {
+    throw new Error(`Failed to fetch blood compatibility: ${compatibilityError.message}`);
+  }
+
+  const donorGroups = (compatibleDonors || []).map(row => row.donor_group);
+
+  const now = new Date();
+  const today = now.toISOString().split('T')[0];
+  // Rows without a catalogue district (not yet re-picked after the migration) fall back to the normalised name,
+  // the same comparison is_within_reach makes for the feed
+  const districtName = normalisePlaceName(request.district);
+  const districtFilter = request.district_id != null
+    ? `district_id.eq.${request.district_id},and(district_id.is.null,normalised_district.eq."${districtName}")`
+    : `normalised_district.eq."${districtName}"`;
+  let nearbyFilter = districtFilter;
+  if (request.latitude != null && request.longitude != null) {
+    const box = getBoundingBox(request.latitude, request.longitude, MAX_MATCH_RADIUS_KM);
+    nearbyFilter += `,and(latitude.gte.${box.minLatitude},latitude.lte.${box.maxLatitude},longitude.gte.${box.minLongitude},longitude.lte.${box.maxLongitude})`;
+  }
+
+  const { data: matchingUsers, error: usersError } = await supabase
+    .from('profiles')
+    .select('user_id, full_name, district_id, district, latitude, longitude, match_radius_km, is_available, unavailable_until')
+    .or(nearbyFilter)
+    .in('blood_group', donorGroups)
+    .contains('donatable_components', [request.component])
+    .or(`eligible_again_on.is.null,eligible_again_on.lte.${today}`)
+    .neq('user_id', request.requester_id);
+
+  if (usersError) {
+    throw new Error(`Failed to fetch eligible users: ${usersError.message}`);
+  }
+
+  // Snoozed donors become available again once their snooze has passed,
+  // the bounding box is only an approximation of each donor's own radius
+  const eligibleUsers = (matchingUsers || []).filter(user =>
+    (user.is_available || (user.unavailable_until && new Date(user.unavailable_until) <= now)) &&
+    isWithinReach(user, request)
   );
 
-  const signatureB64 = btoa(String.fromCharCode(...new Uint8Array(signature)));
-  const jwt = `${headerB64}.${payloadB64}.${signatureB64}`;
+  console.log(`Found ${eligibleUsers?.length || 0} eligible users`);
+
+  return { eligibleUsers, districtFilter };
+}
+
+// Tell users watching this blood group and district, such as volunteer coordinators, unless they were already notified as donors
+async function notifyWatchers(
+  supabase: SupabaseClient,
+  request: BloodRequest,
+  districtFilter: string,
+  alreadyNotified: string[]
+): Promise<PushResult[]> {
+  const { data: watches, error: watchesError } = await supabase
+    .from('favourites')
+    .select('user_id')
+    .eq('notify', true)
+    .or(districtFilter)
+    .or(`blood_group.is.null,blood_group.eq."${request.blood_group}"`)
+    .neq('user_id', request.requester_id);
+
+  if (watchesError) {
+    console.error('Failed to fetch watchlist matches:', watchesError);
+    return [];
+  }
+
+  const watcherIds = [...new Set((watches || []).map(watch => watch.user_id))]
+    .filter(userId => !alreadyNotified.includes(userId));
+
+  console.log(`Found ${watcherIds.length} watchers`);
 
-  // Exchange JWT for access token
-  const tokenResponse = await fetch('https://oauth2.googleapis.com/token', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/x-www-form-urlencoded'
+  return sendPushToUsers(
+    supabase,
+    watcherIds,
+    {
+      title: "👀 Watchlist Match",
+      body: `${describeNeed(request)} needed ${request.hospital ? `at ${request.hospital.name}, ` : 'in '}${request.district}. Tap to view and share.`
+    },
+    {
+      requestId: request.id,
+      urgency: request.urgency,
+      action: "VIEW_REQUEST"
+    },
+    {
+      channelId: 'blood_requests',
+      priority: 'normal'
+    }
+  );
+}
+
+// Tell donors who claimed a request that it has been cancelled and why
+async function notifyClaimantsOfCancellation(supabase: SupabaseClient, requestId: string): Promise<NotificationOutcome> {
+  const { data: request, error: requestError } = await supabase
+    .from('requests')
+    .select('*')
+    .eq('id', requestId)
+    .single();
+
+  if (requestError || !request) {
+    throw new Error(`Failed to fetch request: ${requestError?.message}`);
+  }
+
+  // Only a request that was actually cancelled may trigger these notifications
+  if (request.status !== 'cancelled') {
+    throw new Error('Request is not cancelled');
+  }
+
+  const { data: claims, error: claimsError } = await supabase
+    .from('claims')
+    .select('donor_id')
+    .eq('request_id', requestId);
+
+  if (claimsError) {
+    throw new Error(`Failed to fetch claims: ${claimsError.message}`);
+  }
+
+  if (!claims || claims.length === 0) {
+    return { message: 'No donors had claimed this request' };
+  }
+
+  const results = await sendPushToUsers(
+    supabase,
+    claims.map(claim => claim.donor_id),
+    {
+      title: "Blood Request Cancelled",
+      body: `${request.requester_name} no longer needs ${describeNeed(request)}. ${cancellationReasonLabels[request.cancellation_reason] || cancellationReasonLabels.other}. Thank you for offering to help!`
+    },
+    {
+      requestId: request.id,
+      action: "REQUEST_CANCELLED"
     },
-    body: `grant_type=urn:ietf:params:oauth:grant-type:jwt-bearer&assertion=${jwt}`
-  });
+    {
+      channelId: 'blood_requests',
+      priority: 'normal'
+    }
+  );
+
+  return { message: `Sent ${countSent(results)} cancellation notifications`, results };
+}
+
+// After an extension the requester asked to remind donors about, nudge eligible donors who have not claimed yet.
+// The extension log gates this so each extension sends at most one reminder
+async function notifyDonorsStillNeeded(supabase: SupabaseClient, requestId: string): Promise<NotificationOutcome> {
+  const { data: request, error: requestError } = await supabase
+    .from('requests')
+    .select('*, hospital:hospitals(name)')
+    .eq('id', requestId)
+    .single();
+
+  if (requestError || !request) {
+    throw new Error(`Failed to fetch request: ${requestError?.message}`);
+  }
+
+  if (request.status !== 'open') {
+    return { message: 'Request is no longer open' };
+  }
 
-  if (!tokenResponse.ok) {
-    throw new Error(`Failed to get access token: ${tokenResponse.statusText}`);
+  const { data: extension, error: extensionError } = await supabase
+    .from('request_extensions')
+    .select('id')
+    .eq('request_id', requestId)
+    .eq('notify_donors', true)
+    .is('donors_notified_at', null)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (extensionError) {
+    throw new Error(`Failed to fetch request extension: ${extensionError.message}`);
   }
 
-  const tokenData = await tokenResponse.json();
-  return tokenData.access_token;
+  if (!extension) {
+    return { message: 'No still-needed reminder pending for this request' };
+  }
+
+  // Record the reminder before sending so a retried call cannot notify donors twice
+  const { error: updateError } = await supabase
+    .from('request_extensions')
+    .update({ donors_notified_at: new Date().toISOString() })
+    .eq('id', extension.id);
+
+  if (updateError) {
+    throw new Error(`Failed to record still-needed reminder: ${updateError.message}`);
+  }
+
+  const { eligibleUsers } = await findEligibleDonors(supabase, request);
+
+  const { data: claims, error: claimsError } = await supabase
+    .from('claims')
+    .select('donor_id')
+    .eq('request_id', requestId);
+
+  if (claimsError) {
+    throw new Error(`Failed to fetch claims: ${claimsError.message}`);
+  }
+
+  const claimantIds = (claims || []).map(claim => claim.donor_id);
+  const donorIds = eligibleUsers
+    .map(user => user.user_id)
+    .filter(userId => !claimantIds.includes(userId));
+
+  console.log(`Reminding ${donorIds.length} donors who have not claimed`);
+
+  const results = await sendPushToUsers(
+    supabase,
+    donorIds,
+    {
+      title: "🩸 Still Needed",
+      body: `${describeNeed(request)} is still needed ${request.hospital ? `at ${request.hospital.name}, ` : 'in '}${request.district}. Can you help?`
+    },
+    {
+      requestId: request.id,
+      urgency: request.urgency,
+      action: "VIEW_REQUEST"
+    },
+    {
+      channelId: 'blood_requests',
+      priority: 'normal'
+    }
+  );
+
+  return { message: `Sent ${countSent(results)} still-needed notifications`, results };
 }
 
-async function sendFirebaseNotification(
-  accessToken: string, 
-  deviceToken: string, 
-  notification: { title: string; body: string }, 
-  data: Record<string, string>
-) {
-  const projectId = 'blood-donation-604b0';
-  
-  const payload = {
-    message: {
-      token: deviceToken,
-      notification: {
-        title: notification.title,
-        body: notification.body
+// Remind donors who claimed a scheduled request the day before it is needed
+async function sendScheduledReminders(supabase: SupabaseClient): Promise<NotificationOutcome> {
+  const now = new Date();
+  const reminderWindowEnd = new Date(now.getTime() + 24 * 60 * 60 * 1000);
+
+  const { data: dueRequests, error: requestsError } = await supabase
+    .from('requests')
+    .select('*, hospital:hospitals(name)')
+    .eq('urgency', 'scheduled')
+    .eq('status', 'open')
+    .is('reminder_sent_at', null)
+    .gt('needed_by', now.toISOString())
+    .lte('needed_by', reminderWindowEnd.toISOString());
+
+  if (requestsError) {
+    throw new Error(`Failed to fetch scheduled requests: ${requestsError.message}`);
+  }
+
+  console.log(`Found ${dueRequests?.length || 0} scheduled requests due for a reminder`);
+
+  const results: PushResult[] = [];
+
+  for (const request of (dueRequests || []) as BloodRequest[]) {
+    const { data: claims, error: claimsError } = await supabase
+      .from('claims')
+      .select('donor_id')
+      .eq('request_id', request.id);
+
+    if (claimsError) {
+      console.error(`Failed to fetch claims for request ${request.id}:`, claimsError);
+      continue;
+    }
+
+    results.push(...await sendPushToUsers(
+      supabase,
+      (claims || []).map(claim => claim.donor_id),
+      {
+        title: "⏰ Donation Reminder",
+        body: `You offered to donate ${describeNeed(request)} for ${request.requester_name} on ${formatNeededBy(request.needed_by!)}. ${request.hospital?.name || request.location_description || request.district}`
       },
-      data: data,
-      android: {
-        notification: {
-          click_action: 'FLUTTER_NOTIFICATION_CLICK',
-          channel_id: 'blood_requests',
-          priority: 'high'
-        }
+      {
+        requestId: request.id,
+        action: "VIEW_REQUEST"
+      },
+      {
+        channelId: 'blood_requests_scheduled',
+        priority: 'high'
       }
+    ));
+
+    // Record the reminder even without claims so the request is not picked up again
+    const { error: updateError } = await supabase
+      .from('requests')
+      .update({ reminder_sent_at: now.toISOString() })
+      .eq('id', request.id);
+
+    if (updateError) {
+      console.error(`Failed to record reminder for request ${request.id}:`, updateError);
     }
-  };
+  }
 
-  const response = await fetch(
-    `https://fcm.googleapis.com/v1/projects/${projectId}/messages:send`,
-    {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${accessToken}`,
-        'Content-Type': 'application/json'
+  return { message: `Sent ${countSent(results)} reminders`, results };
+}
+
+// Post the next request of every due recurring series, then notify donors as for a new request
+async function materialiseRecurringRequests(supabase: SupabaseClient): Promise<NotificationOutcome> {
+  const { data: newRequestIds, error } = await supabase.rpc('materialise_recurring_requests');
+
+  if (error) {
+    throw new Error(`Failed to materialise recurring requests: ${error.message}`);
+  }
+
+  console.log(`Materialised ${newRequestIds?.length || 0} recurring requests`);
+
+  const results: PushResult[] = [];
+
+  for (const requestId of (newRequestIds || []) as string[]) {
+    try {
+      const outcome = await notifyEligibleDonors(supabase, requestId);
+      results.push(...(outcome.results || []));
+    } catch (notificationError) {
+      // Keep going so one failing request does not block the rest of the batch
+      console.error(`Failed to notify donors for recurring request ${requestId}:`, notificationError);
+    }
+  }
+
+  return { message: `Materialised ${newRequestIds?.length || 0} requests, sent ${countSent(results)} notifications`, results };
+}
+
+// Warn requesters whose request is about to expire, then expire overdue requests and tell their requesters.
+// Both pushes carry an extend action so the requester can keep the request open for another day
+async function sendExpiryNotices(supabase: SupabaseClient): Promise<NotificationOutcome> {
+  const now = new Date();
+  const warningWindowEnd = new Date(now.getTime() + EXPIRY_WARNING_HOURS * 60 * 60 * 1000);
+
+  const { data: expiringRequests, error: expiringError } = await supabase
+    .from('requests')
+    .select('*')
+    .eq('status', 'open')
+    .is('expiry_warning_sent_at', null)
+    .gt('expires_at', now.toISOString())
+    .lte('expires_at', warningWindowEnd.toISOString());
+
+  if (expiringError) {
+    throw new Error(`Failed to fetch expiring requests: ${expiringError.message}`);
+  }
+
+  console.log(`Found ${expiringRequests?.length || 0} requests expiring soon`);
+
+  const results: PushResult[] = [];
+
+  for (const request of (expiringRequests || []) as BloodRequest[]) {
+    const expiresAt = new Date(request.expires_at).toLocaleTimeString('en-IN', { hour: 'numeric', minute: '2-digit', timeZone: 'Asia/Kolkata' });
+
+    results.push(...await sendPushToUsers(
+      supabase,
+      [request.requester_id],
+      {
+        title: "⏳ Request Expiring Soon",
+        body: `Your request for ${describeNeed(request)} expires at ${expiresAt}. Extend it by 24 hours if you still need donors.`
       },
-      body: JSON.stringify(payload)
+      {
+        requestId: request.id,
+        action: "EXTEND_REQUEST"
+      },
+      {
+        channelId: 'blood_requests',
+        priority: 'high'
+      }
+    ));
+
+    // Record the warning even without a device so the request is not picked up again
+    const { error: updateError } = await supabase
+      .from('requests')
+      .update({ expiry_warning_sent_at: now.toISOString() })
+      .eq('id', request.id);
+
+    if (updateError) {
+      console.error(`Failed to record expiry warning for request ${request.id}:`, updateError);
+    }
+  }
+
+  const { data: expiredRequestIds, error: expireError } = await supabase.rpc('expire_old_requests');
+
+  if (expireError) {
+    throw new Error(`Failed to expire requests: ${expireError.message}`);
+  }
+
+  console.log(`Expired ${expiredRequestIds?.length || 0} requests`);
+
+  if (expiredRequestIds && expiredRequestIds.length > 0) {
+    const { data: expiredRequests, error: expiredError } = await supabase
+      .from('requests')
+      .select('*')
+      .in('id', expiredRequestIds);
+
+    if (expiredError) {
+      throw new Error(`Failed to fetch expired requests: ${expiredError.message}`);
     }
-  );
 
-  if (!response.ok) {
-    const errorData = await response.text();
-    throw new Error(`Firebase notification failed: ${response.status} - ${errorData}`);
+    for (const request of (expiredRequests || []) as BloodRequest[]) {
+      results.push(...await sendPushToUsers(
+        supabase,
+        [request.requester_id],
+        {
+          title: "⌛ Request Expired",
+          body: `Your request for ${describeNeed(request)} has expired and is no longer shown to donors. Extend it by 24 hours to keep looking.`
+        },
+        {
+          requestId: request.id,
+          action: "EXTEND_REQUEST"
+        },
+        {
+          channelId: 'blood_requests',
+          priority: 'normal'
+        }
+      ));
+    }
   }
 
-  return await response.json();
-}
\ No newline at end of file
+  return { message: `Expired ${expiredRequestIds?.length || 0} requests, sent ${countSent(results)} expiry notifications`, results };
+}
+
+// Push a new chat message to the other party of the thread. notified_at gates this so each message notifies once
+async function notifyMessageRecipient(supabase: SupabaseClient, messageId: string): Promise<NotificationOutcome> {
+  const { data: message, error: messageError } = await supabase
+    .from('messages')
+    .update({ notified_at: new Date().toISOString() })
+    .eq('id', messageId)
+    .is('notified_at', null)
+    .select('id, request_id, donor_id, sender_id, body')
+    .maybeSingle();
+
+  if (messageError) {
+    throw new Error(`Failed to fetch message: ${messageError.message}`);
+  }
+
+  if (!message) {
+    return { message: 'Message was already notified' };
+  }
+
+  const { data: request, error: requestError } = await supabase
+    .from('requests')
+    .select('id, requester_id, requester_name')
+    .eq('id', message.request_id)
+    .single();
+
+  if (requestError || !request) {
+    throw new Error(`Failed to fetch request: ${requestError?.message}`);
+  }
+
+  const fromDonor = message.sender_id === message.donor_id;
+  const recipientId = fromDonor ? request.requester_id : message.donor_id;
+
+  let senderName = request.requester_name;
+  if (fromDonor) {
+    const { data: donor } = await supabase
+      .from('profiles')
+      .select('full_name')
+      .eq('user_id', message.donor_id)
+      .single();
+    senderName = donor?.full_name || 'A donor';
+  }
+
+  const preview = message.body.length > 120 ? `${message.body.slice(0, 117)}...` : message.body;
+
+  const results = await sendPushToUsers(
+    supabase,
+    [recipientId],
+    {
+      title: `💬 ${senderName}`,
+      body: preview
+    },
+    {
+      requestId: message.request_id,
+      donorId: message.donor_id,
+      action: "OPEN_MESSAGES"
+    },
+    {
+      channelId: 'blood_requests',
+      priority: 'high'
+    }
+  );
+
+  return { message: `Sent ${countSent(results)} message notifications`, results };
+}
@@ -0,0 +1,126 @@
+-- Shared red-cell compatibility table used by the feed, RLS policies and notifications
+-- Each row means a donor of donor_group can give to a recipient of recipient_group
+CREATE TABLE public.blood_compatibility (
+    donor_group blood_group NOT NULL,
+    recipient_group blood_group NOT NULL,
+    PRIMARY KEY (donor_group, recipient_group)
+);
+
+ALTER TABLE public.blood_compatibility ENABLE ROW LEVEL SECURITY;
+
+-- Reference data, readable by everyone
+CREATE POLICY "Anyone can view blood compatibility"
+ON public.blood_compatibility
+FOR SELECT
+USING (true);
+
+-- O- is the universal donor, AB+ the universal recipient
+INSERT INTO public.blood_compatibility (donor_group, recipient_group) VALUES
+    ('O-', 'O-'), ('O-', 'O+'), ('O-', 'A-'), ('O-', 'A+'),
+    ('O-', 'B-'), ('O-', 'B+'), ('O-', 'AB-'), ('O-', 'AB+'),
+    ('O+', 'O+'), ('O+', 'A+'), ('O+', 'B+'), ('O+', 'AB+'),
+    ('A-', 'A-'), ('A-', 'A+'), ('A-', 'AB-'), ('A-', 'AB+'),
+    ('A+', 'A+'), ('A+', 'AB+'),
+    ('B-', 'B-'), ('B-', 'B+'), ('B-', 'AB-'), ('B-', 'AB+'),
+    ('B+', 'B+'), ('B+', 'AB+'),
+    ('AB-', 'AB-'), ('AB-', 'AB+'),
+    ('AB+', 'AB+');
+
+CREATE INDEX idx_blood_compatibility_recipient ON public.blood_compatibility(recipient_group);
+
+-- Check whether a donor group can give to a recipient group
+CREATE OR REPLACE FUNCTION public.can_donate_to(donor blood_group, recipient blood_group)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM blood_compatibility bc
+    WHERE bc.donor_group = donor
+      AND bc.recipient_group = recipient
+  );
+$$;
+
+-- Requests feed: show compatible requests instead of exact blood group matches
+DROP POLICY IF EXISTS "Users can view requests in their district with matching blood g" ON public.requests;
+CREATE POLICY "Users can view requests in their district with compatible blood group" ON public.requests
+    FOR SELECT USING (
+        status = 'open' AND expires_at > now() AND
+        (
+            (district = (SELECT district FROM public.profiles WHERE user_id = auth.uid())
+             AND public.can_donate_to((SELECT blood_group FROM public.profiles WHERE user_id = auth.uid()), blood_group)
+             AND requester_id != auth.uid())
+            OR requester_id = auth.uid()
+        )
+    );
+
+DROP POLICY IF EXISTS "Users can view claims for requests they can see" ON public.claims;
+CREATE POLICY "Users can view claims for requests they can see" ON public.claims
+    FOR SELECT USING (
+        request_id IN (
+            SELECT id FROM public.requests
+            WHERE (district = (SELECT district FROM public.profiles WHERE user_id = auth.uid())
+                  AND public.can_donate_to((SELECT blood_group FROM public.profiles WHERE user_id = auth.uid()), blood_group))
+               OR requester_id = auth.uid()
+        )
+    );
+
+-- Same compatibility rules for the phone-safe requests RPC
+CREATE OR REPLACE FUNCTION public.get_safe_requests()
+RETURNS TABLE (
+  id uuid,
+  blood_group blood_group,
+  requester_id uuid,
+  requester_name text,
+  requester_phone text,
+  district text,
+  state text,
+  location_description text,
+  message text,
+  status request_status,
+  expires_at timestamp with time zone,
+  created_at timestamp with time zone,
+  updated_at timestamp with time zone
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    r.id,
+    r.blood_group,
+    r.requester_id,
+    r.requester_name,
+    -- Only return phone number if the user owns the request OR has an approved contact request
+    CASE
+      WHEN r.requester_id = auth.uid() THEN r.requester_phone
+      WHEN EXISTS (
+        SELECT 1 FROM contact_requests cr
+        WHERE cr.request_id = r.id
+        AND cr.donor_id = auth.uid()
+        AND cr.status = 'approved'
+      ) THEN r.requester_phone
+      ELSE NULL
+    END as requester_phone,
+    r.district,
+    r.state,
+    r.location_description,
+    r.message,
+    r.status,
+    r.expires_at,
+    r.created_at,
+    r.updated_at
+  FROM requests r
+  WHERE r.status = 'open'
+    AND r.expires_at > now()
+    AND (
+      -- Show requests in user's district the user's blood group can donate to
+      (r.district = (SELECT profiles.district FROM profiles WHERE profiles.user_id = auth.uid())
+       AND can_donate_to((SELECT profiles.blood_group FROM profiles WHERE profiles.user_id = auth.uid()), r.blood_group)
+       AND r.requester_id <> auth.uid())
+      -- Always show user's own requests
+      OR r.requester_id = auth.uid()
+    )
+  ORDER BY r.created_at DESC;
+$$;
@@ -0,0 +1,168 @@
+-- Blood components that can be requested and donated
+CREATE TYPE public.blood_component AS ENUM ('whole_blood', 'prbc', 'platelets', 'plasma');
+
+-- Requests now say which component is needed
+ALTER TABLE public.requests ADD COLUMN component blood_component NOT NULL DEFAULT 'whole_blood';
+
+-- Donors choose which components they are willing to give
+ALTER TABLE public.profiles
+ADD COLUMN donatable_components blood_component[] NOT NULL
+DEFAULT ARRAY['whole_blood', 'prbc', 'platelets', 'plasma']::blood_component[];
+
+-- Make the compatibility table component-aware
+ALTER TABLE public.blood_compatibility ADD COLUMN component blood_component NOT NULL DEFAULT 'whole_blood';
+ALTER TABLE public.blood_compatibility DROP CONSTRAINT blood_compatibility_pkey;
+ALTER TABLE public.blood_compatibility ADD PRIMARY KEY (component, donor_group, recipient_group);
+ALTER TABLE public.blood_compatibility ALTER COLUMN component DROP DEFAULT;
+
+DROP INDEX IF EXISTS public.idx_blood_compatibility_recipient;
+CREATE INDEX idx_blood_compatibility_recipient ON public.blood_compatibility(component, recipient_group);
+
+-- Packed red cells follow the same red-cell rules as whole blood
+INSERT INTO public.blood_compatibility (component, donor_group, recipient_group)
+SELECT 'prbc', donor_group, recipient_group
+FROM public.blood_compatibility
+WHERE component = 'whole_blood';
+
+-- Plasma is the inverse of red cells: AB is the universal plasma donor and Rh does not matter
+INSERT INTO public.blood_compatibility (component, donor_group, recipient_group) VALUES
+    ('plasma', 'O-', 'O-'), ('plasma', 'O-', 'O+'),
+    ('plasma', 'O+', 'O-'), ('plasma', 'O+', 'O+'),
+    ('plasma', 'A-', 'O-'), ('plasma', 'A-', 'O+'), ('plasma', 'A-', 'A-'), ('plasma', 'A-', 'A+'),
+    ('plasma', 'A+', 'O-'), ('plasma', 'A+', 'O+'), ('plasma', 'A+', 'A-'), ('plasma', 'A+', 'A+'),
+    ('plasma', 'B-', 'O-'), ('plasma', 'B-', 'O+'), ('plasma', 'B-', 'B-'), ('plasma', 'B-', 'B+'),
+    ('plasma', 'B+', 'O-'), ('plasma', 'B+', 'O+'), ('plasma', 'B+', 'B-'), ('plasma', 'B+', 'B+'),
+    ('plasma', 'AB-', 'O-'), ('plasma', 'AB-', 'O+'), ('plasma', 'AB-', 'A-'), ('plasma', 'AB-', 'A+'),
+    ('plasma', 'AB-', 'B-'), ('plasma', 'AB-', 'B+'), ('plasma', 'AB-', 'AB-'), ('plasma', 'AB-', 'AB+'),
+    ('plasma', 'AB+', 'O-'), ('plasma', 'AB+', 'O+'), ('plasma', 'AB+', 'A-'), ('plasma', 'AB+', 'A+'),
+    ('plasma', 'AB+', 'B-'), ('plasma', 'AB+', 'B+'), ('plasma', 'AB+', 'AB-'), ('plasma', 'AB+', 'AB+');
+
+-- Platelets: ABO follows plasma rules, Rh-negative recipients only receive Rh-negative platelets
+INSERT INTO public.blood_compatibility (component, donor_group, recipient_group) VALUES
+    ('platelets', 'O-', 'O-'), ('platelets', 'O-', 'O+'),
+    ('platelets', 'O+', 'O+'),
+    ('platelets', 'A-', 'O-'), ('platelets', 'A-', 'O+'), ('platelets', 'A-', 'A-'), ('platelets', 'A-', 'A+'),
+    ('platelets', 'A+', 'O+'), ('platelets', 'A+', 'A+'),
+    ('platelets', 'B-', 'O-'), ('platelets', 'B-', 'O+'), ('platelets', 'B-', 'B-'), ('platelets', 'B-', 'B+'),
+    ('platelets', 'B+', 'O+'), ('platelets', 'B+', 'B+'),
+    ('platelets', 'AB-', 'O-'), ('platelets', 'AB-', 'O+'), ('platelets', 'AB-', 'A-'), ('platelets', 'AB-', 'A+'),
+    ('platelets', 'AB-', 'B-'), ('platelets', 'AB-', 'B+'), ('platelets', 'AB-', 'AB-'), ('platelets', 'AB-', 'AB+'),
+    ('platelets', 'AB+', 'O+'), ('platelets', 'AB+', 'A+'), ('platelets', 'AB+', 'B+'), ('platelets', 'AB+', 'AB+');
+
+-- Policies depend on the two-argument can_donate_to, drop them before replacing it
+DROP POLICY IF EXISTS "Users can view requests in their district with compatible blood group" ON public.requests;
+DROP POLICY IF EXISTS "Users can view claims for requests they can see" ON public.claims;
+DROP FUNCTION IF EXISTS public.can_donate_to(blood_group, blood_group);
+
+CREATE OR REPLACE FUNCTION public.can_donate_to(donor blood_group, recipient blood_group, needed blood_component)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM blood_compatibility bc
+    WHERE bc.component = needed
+      AND bc.donor_group = donor
+      AND bc.recipient_group = recipient
+  );
+$$;
+
+-- Check whether a user's blood group and component preferences let them fulfil a request
+CREATE OR REPLACE FUNCTION public.is_compatible_donor(donor_user_id uuid, recipient blood_group, needed blood_component)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.user_id = donor_user_id
+      AND needed = ANY(p.donatable_components)
+      AND can_donate_to(p.blood_group, recipient, needed)
+  );
+$$;
+
+CREATE POLICY "Users can view requests in their district with compatible blood group" ON public.requests
+    FOR SELECT USING (
+        status = 'open' AND expires_at > now() AND
+        (
+            (district = (SELECT district FROM public.profiles WHERE user_id = auth.uid())
+             AND public.is_compatible_donor(auth.uid(), blood_group, component)
+             AND requester_id != auth.uid())
+            OR requester_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can view claims for requests they can see" ON public.claims
+    FOR SELECT USING (
+        request_id IN (
+            SELECT id FROM public.requests
+            WHERE (district = (SELECT district FROM public.profiles WHERE user_id = auth.uid())
+                  AND public.is_compatible_donor(auth.uid(), blood_group, component))
+               OR requester_id = auth.uid()
+        )
+    );
+
+-- Return type changes, so the function has to be recreated
+DROP FUNCTION IF EXISTS public.get_safe_requests();
+CREATE OR REPLACE FUNCTION public.get_safe_requests()
+RETURNS TABLE (
+  id uuid,
+  blood_group blood_group,
+  component blood_component,
+  requester_id uuid,
+  requester_name text,
+  requester_phone text,
+  district text,
+  state text,
+  location_description text,
+  message text,
+  status request_status,
+  expires_at timestamp with time zone,
+  created_at timestamp with time zone,
+  updated_at timestamp with time zone
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    r.id,
+    r.blood_group,
+    r.component,
+    r.requester_id,
+    r.requester_name,
+    -- Only return phone number if the user owns the request OR has an approved contact request
+    CASE
+      WHEN r.requester_id = auth.uid() THEN r.requester_phone
+      WHEN EXISTS (
+        SELECT 1 FROM contact_requests cr
+        WHERE cr.request_id = r.id
+        AND cr.donor_id = auth.uid()
+        AND cr.status = 'approved'
+      ) THEN r.requester_phone
+      ELSE NULL
+    END as requester_phone,
+    r.district,
+    r.state,
+    r.location_description,
+    r.message,
+    r.status,
+    r.expires_at,
+    r.created_at,
+    r.updated_at
+  FROM requests r
+  WHERE r.status = 'open'
+    AND r.expires_at > now()
+    AND (
+      -- Show requests in user's district for a component the user can donate
+      (r.district = (SELECT profiles.district FROM profiles WHERE profiles.user_id = auth.uid())
+       AND is_compatible_donor(auth.uid(), r.blood_group, r.component)
+       AND r.requester_id <> auth.uid())
+      -- Always show user's own requests
+      OR r.requester_id = auth.uid()
+    )
+  ORDER BY r.created_at DESC;
+$$;
@@ -0,0 +1,35 @@
+-- Track how many units a request needs and how many each donor pledges
+ALTER TABLE public.requests
+ADD COLUMN units_needed integer NOT NULL DEFAULT 1
+CHECK (units_needed BETWEEN 1 AND 10);
+
+ALTER TABLE public.claims
+ADD COLUMN pledged_units integer NOT NULL DEFAULT 1
+CHECK (pledged_units BETWEEN 1 AND 10);
+
+-- Units actually donated, recorded once the donation is confirmed
+ALTER TABLE public.claims
+ADD COLUMN confirmed_units integer
+CHECK (confirmed_units >= 0);
+
+-- Mark a request fulfilled once confirmed donations cover the units needed
+CREATE OR REPLACE FUNCTION public.fulfil_request_when_covered()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE public.requests r
+    SET status = 'fulfilled'
+    WHERE r.id = NEW.request_id
+      AND r.status IN ('open', 'claimed')
+      AND (
+        SELECT COALESCE(SUM(c.confirmed_units), 0)
+        FROM public.claims c
+        WHERE c.request_id = r.id
+      ) >= r.units_needed;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER fulfil_request_on_confirmed_units
+    AFTER INSERT OR UPDATE OF confirmed_units ON public.claims
+    FOR EACH ROW
+    EXECUTE FUNCTION public.fulfil_request_when_covered();
@@ -0,0 +1,39 @@
+-- Request urgency levels
+CREATE TYPE public.request_urgency AS ENUM ('critical', 'within_24h', 'scheduled');
+
+ALTER TABLE public.requests ADD COLUMN urgency request_urgency NOT NULL DEFAULT 'within_24h';
+ALTER TABLE public.requests ADD COLUMN needed_by TIMESTAMP WITH TIME ZONE;
+
+-- Scheduled requests must say when the blood is needed
+ALTER TABLE public.requests
+ADD CONSTRAINT requests_scheduled_needed_by_check
+CHECK (urgency <> 'scheduled' OR needed_by IS NOT NULL);
+
+-- Derive expiry from urgency instead of a fixed 24 hours
+CREATE OR REPLACE FUNCTION public.set_request_expiry()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.urgency = 'scheduled' THEN
+        IF NEW.needed_by <= now() THEN
+            RAISE EXCEPTION 'Scheduled requests must be needed in the future';
+        END IF;
+        IF NEW.needed_by > now() + interval '30 days' THEN
+            RAISE EXCEPTION 'Scheduled requests can be at most 30 days ahead';
+        END IF;
+    END IF;
+
+    NEW.expires_at := CASE NEW.urgency
+        WHEN 'critical' THEN now() + interval '12 hours'
+        WHEN 'scheduled' THEN NEW.needed_by
+        ELSE now() + interval '24 hours'
+    END;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER set_request_expiry_on_insert
+    BEFORE INSERT ON public.requests
+    FOR EACH ROW
+    EXECUTE FUNCTION public.set_request_expiry();
+
+CREATE INDEX idx_requests_urgency ON public.requests(urgency, created_at DESC) WHERE status = 'open';
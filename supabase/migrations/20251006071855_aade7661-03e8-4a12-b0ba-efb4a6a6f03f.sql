@@ -0,0 +1,25 @@
+-- Track when the day-before reminder was sent for scheduled requests
+ALTER TABLE public.requests ADD COLUMN reminder_sent_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_requests_scheduled_reminders ON public.requests(needed_by)
+WHERE urgency = 'scheduled' AND status = 'open' AND reminder_sent_at IS NULL;
+
+-- Run the reminder job hourly through the notifications edge function
+-- Requires a 'service_role_key' secret in Vault
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'send-scheduled-request-reminders',
+  '0 * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://fbhidjyqctcsdfydyzlc.supabase.co/functions/v1/send-blood-request-notifications',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := jsonb_build_object('type', 'scheduled_reminders')
+  );
+  $$
+);
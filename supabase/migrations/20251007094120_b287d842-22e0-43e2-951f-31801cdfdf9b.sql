@@ -0,0 +1,109 @@
+-- Recurring request templates for chronic patients (thalassemia, dialysis)
+CREATE TABLE public.recurring_requests (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    requester_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+    blood_group blood_group NOT NULL,
+    component blood_component NOT NULL DEFAULT 'whole_blood',
+    units_needed integer NOT NULL DEFAULT 1 CHECK (units_needed BETWEEN 1 AND 10),
+    requester_name TEXT NOT NULL,
+    requester_phone TEXT NOT NULL,
+    district TEXT NOT NULL,
+    state TEXT NOT NULL,
+    location_description TEXT,
+    message TEXT,
+    cadence_days integer NOT NULL CHECK (cadence_days BETWEEN 7 AND 60),
+    next_needed_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused', 'ended')),
+    last_materialised_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.recurring_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own recurring requests"
+ON public.recurring_requests
+FOR SELECT
+USING (auth.uid() = requester_id);
+
+CREATE POLICY "Users can create their own recurring requests"
+ON public.recurring_requests
+FOR INSERT
+WITH CHECK (auth.uid() = requester_id);
+
+CREATE POLICY "Users can update their own recurring requests"
+ON public.recurring_requests
+FOR UPDATE
+USING (auth.uid() = requester_id);
+
+CREATE TRIGGER update_recurring_requests_updated_at
+BEFORE UPDATE ON public.recurring_requests
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_recurring_requests_requester ON public.recurring_requests(requester_id);
+CREATE INDEX idx_recurring_requests_due ON public.recurring_requests(next_needed_at) WHERE status = 'active';
+
+-- Link each materialised request back to its series
+ALTER TABLE public.requests
+ADD COLUMN recurring_request_id UUID REFERENCES public.recurring_requests(id) ON DELETE SET NULL;
+
+-- Create the next request for every active series due within the next 3 days
+-- Returns the ids of the new requests so the caller can notify donors
+CREATE OR REPLACE FUNCTION public.materialise_recurring_requests()
+RETURNS SETOF uuid AS $$
+DECLARE
+    template public.recurring_requests%ROWTYPE;
+    new_request_id uuid;
+BEGIN
+    FOR template IN
+        SELECT * FROM public.recurring_requests
+        WHERE status = 'active'
+          AND next_needed_at <= now() + interval '3 days'
+        FOR UPDATE SKIP LOCKED
+    LOOP
+        -- Occurrences already in the past are skipped rather than posted late
+        IF template.next_needed_at > now() THEN
+            INSERT INTO public.requests (
+                requester_id, blood_group, component, units_needed,
+                requester_name, requester_phone, district, state,
+                location_description, message,
+                urgency, needed_by, recurring_request_id
+            ) VALUES (
+                template.requester_id, template.blood_group, template.component, template.units_needed,
+                template.requester_name, template.requester_phone, template.district, template.state,
+                template.location_description, template.message,
+                'scheduled', template.next_needed_at, template.id
+            )
+            RETURNING id INTO new_request_id;
+
+            RETURN NEXT new_request_id;
+        END IF;
+
+        UPDATE public.recurring_requests
+        SET next_needed_at = next_needed_at + make_interval(days => cadence_days),
+            last_materialised_at = now()
+        WHERE id = template.id;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the scheduled job (service role) may materialise requests
+REVOKE EXECUTE ON FUNCTION public.materialise_recurring_requests() FROM PUBLIC, anon, authenticated;
+
+-- Materialise due series hourly and notify donors through the notifications edge function
+-- Requires a 'service_role_key' secret in Vault
+SELECT cron.schedule(
+  'materialise-recurring-requests',
+  '30 * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://fbhidjyqctcsdfydyzlc.supabase.co/functions/v1/send-blood-request-notifications',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := jsonb_build_object('type', 'recurring_requests')
+  );
+  $$
+);
@@ -0,0 +1,21 @@
+-- Track the donor's last donation so medically deferred donors are not asked to donate
+ALTER TABLE public.profiles ADD COLUMN last_donation_date DATE;
+ALTER TABLE public.profiles ADD COLUMN last_donation_component blood_component;
+
+ALTER TABLE public.profiles
+ADD CONSTRAINT profiles_last_donation_check
+CHECK (last_donation_date IS NULL OR last_donation_component IS NOT NULL);
+
+-- Minimum interval before the next donation depends on what was donated:
+-- 56 days for whole blood, 112 for apheresis red cells, 28 for plasma, 7 for platelets
+ALTER TABLE public.profiles
+ADD COLUMN eligible_again_on DATE GENERATED ALWAYS AS (
+    last_donation_date + CASE last_donation_component
+        WHEN 'whole_blood' THEN 56
+        WHEN 'prbc' THEN 112
+        WHEN 'plasma' THEN 28
+        WHEN 'platelets' THEN 7
+    END
+) STORED;
+
+CREATE INDEX idx_profiles_eligible_again_on ON public.profiles(eligible_again_on);
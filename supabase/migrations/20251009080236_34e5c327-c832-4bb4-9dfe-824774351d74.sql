@@ -0,0 +1,6 @@
+-- Let donors pause requests and notifications while travelling or unwell
+ALTER TABLE public.profiles ADD COLUMN is_available BOOLEAN NOT NULL DEFAULT true;
+
+-- Optional snooze: the donor counts as available again once this passes
+ALTER TABLE public.profiles ADD COLUMN unavailable_until TIMESTAMP WITH TIME ZONE;
+
@@ -0,0 +1,87 @@
+-- Two-sided donation confirmation on claims
+ALTER TABLE public.claims ADD COLUMN requester_confirmed_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.claims ADD COLUMN donor_confirmed_at TIMESTAMP WITH TIME ZONE;
+
+-- Claims on a request with donor names, only for the requester who owns it
+CREATE OR REPLACE FUNCTION public.get_request_claims(target_request_id uuid)
+RETURNS TABLE (
+  claim_id uuid,
+  donor_id uuid,
+  donor_name text,
+  donor_blood_group blood_group,
+  pledged_units integer,
+  confirmed_units integer,
+  requester_confirmed_at timestamp with time zone,
+  donor_confirmed_at timestamp with time zone,
+  claimed_at timestamp with time zone
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    c.id,
+    c.donor_id,
+    p.full_name,
+    p.blood_group,
+    c.pledged_units,
+    c.confirmed_units,
+    c.requester_confirmed_at,
+    c.donor_confirmed_at,
+    c.claimed_at
+  FROM claims c
+  JOIN requests r ON r.id = c.request_id
+  LEFT JOIN profiles p ON p.user_id = c.donor_id
+  WHERE c.request_id = target_request_id
+    AND r.requester_id = auth.uid()
+  ORDER BY c.claimed_at;
+$$;
+
+-- Requester records how many units a claimed donor actually gave (0 for a no-show)
+-- The fulfil_request_on_confirmed_units trigger closes the request once the need is covered
+CREATE OR REPLACE FUNCTION public.confirm_donation(target_claim_id uuid, units integer)
+RETURNS void AS $$
+BEGIN
+    IF units < 0 OR units > 10 THEN
+        RAISE EXCEPTION 'Units must be between 0 and 10';
+    END IF;
+
+    UPDATE public.claims c
+    SET confirmed_units = units,
+        requester_confirmed_at = now()
+    FROM public.requests r
+    WHERE c.id = target_claim_id
+      AND r.id = c.request_id
+      AND r.requester_id = auth.uid();
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Claim not found';
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Donor confirms they donated, which also starts their deferral period
+CREATE OR REPLACE FUNCTION public.confirm_my_donation(target_claim_id uuid)
+RETURNS void AS $$
+DECLARE
+    donated_component blood_component;
+BEGIN
+    UPDATE public.claims c
+    SET donor_confirmed_at = now()
+    FROM public.requests r
+    WHERE c.id = target_claim_id
+      AND r.id = c.request_id
+      AND c.donor_id = auth.uid()
+    RETURNING r.component INTO donated_component;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Claim not found';
+    END IF;
+
+    UPDATE public.profiles
+    SET last_donation_date = current_date,
+        last_donation_component = donated_component
+    WHERE user_id = auth.uid();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,29 @@
+-- Soft-cancel requests with a reason so claims and history are kept
+CREATE TYPE public.request_cancellation_reason AS ENUM ('fulfilled_elsewhere', 'patient_discharged', 'no_longer_needed', 'other');
+
+ALTER TABLE public.requests ADD COLUMN cancellation_reason request_cancellation_reason;
+ALTER TABLE public.requests ADD COLUMN cancellation_note TEXT;
+ALTER TABLE public.requests ADD COLUMN cancelled_at TIMESTAMP WITH TIME ZONE;
+
+-- Stamp the cancellation time and require a reason whenever a request is cancelled
+CREATE OR REPLACE FUNCTION public.record_request_cancellation()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled' THEN
+        IF NEW.cancellation_reason IS NULL THEN
+            RAISE EXCEPTION 'A cancellation reason is required';
+        END IF;
+        NEW.cancelled_at := now();
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER record_request_cancellation
+BEFORE UPDATE OF status ON public.requests
+FOR EACH ROW
+EXECUTE FUNCTION public.record_request_cancellation();
+
+-- Requests are no longer deleted by their owners, cancelling keeps the row
+DROP POLICY IF EXISTS "Users can delete their own requests" ON public.requests;
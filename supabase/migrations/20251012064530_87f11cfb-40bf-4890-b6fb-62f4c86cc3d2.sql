@@ -0,0 +1,41 @@
+-- Donation history for the signed-in donor, including requests that are no longer open
+CREATE OR REPLACE FUNCTION public.get_my_donation_history()
+RETURNS TABLE (
+  claim_id uuid,
+  request_id uuid,
+  claimed_at timestamp with time zone,
+  pledged_units integer,
+  confirmed_units integer,
+  requester_confirmed_at timestamp with time zone,
+  donor_confirmed_at timestamp with time zone,
+  requester_name text,
+  blood_group blood_group,
+  component blood_component,
+  district text,
+  location_description text,
+  request_status request_status
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    c.id,
+    r.id,
+    c.claimed_at,
+    c.pledged_units,
+    c.confirmed_units,
+    c.requester_confirmed_at,
+    c.donor_confirmed_at,
+    r.requester_name,
+    r.blood_group,
+    r.component,
+    r.district,
+    r.location_description,
+    r.status
+  FROM claims c
+  JOIN requests r ON r.id = c.request_id
+  WHERE c.donor_id = auth.uid()
+  ORDER BY c.claimed_at DESC;
+$$;
@@ -0,0 +1,11 @@
+-- Requesters keep access to their own requests after they close, so they can review past outcomes
+DROP POLICY IF EXISTS "Users can view requests in their district with compatible blood group" ON public.requests;
+
+CREATE POLICY "Users can view requests in their district with compatible blood group" ON public.requests
+    FOR SELECT USING (
+        (status = 'open' AND expires_at > now()
+         AND district = (SELECT district FROM public.profiles WHERE user_id = auth.uid())
+         AND public.is_compatible_donor(auth.uid(), blood_group, component)
+         AND requester_id != auth.uid())
+        OR requester_id = auth.uid()
+    );
@@ -0,0 +1,172 @@
+-- Location coordinates and a donor-chosen matching radius
+ALTER TABLE public.profiles ADD COLUMN latitude DOUBLE PRECISION;
+ALTER TABLE public.profiles ADD COLUMN longitude DOUBLE PRECISION;
+ALTER TABLE public.profiles ADD COLUMN match_radius_km INTEGER NOT NULL DEFAULT 10
+  CHECK (match_radius_km IN (5, 10, 25, 50));
+
+ALTER TABLE public.requests ADD COLUMN latitude DOUBLE PRECISION;
+ALTER TABLE public.requests ADD COLUMN longitude DOUBLE PRECISION;
+
+ALTER TABLE public.profiles ADD CONSTRAINT profiles_coordinates_check
+  CHECK ((latitude IS NULL) = (longitude IS NULL) AND latitude BETWEEN -90 AND 90 AND longitude BETWEEN -180 AND 180);
+ALTER TABLE public.requests ADD CONSTRAINT requests_coordinates_check
+  CHECK ((latitude IS NULL) = (longitude IS NULL) AND latitude BETWEEN -90 AND 90 AND longitude BETWEEN -180 AND 180);
+
+ALTER TABLE public.recurring_requests ADD COLUMN latitude DOUBLE PRECISION;
+ALTER TABLE public.recurring_requests ADD COLUMN longitude DOUBLE PRECISION;
+
+CREATE INDEX idx_requests_coordinates ON public.requests (latitude, longitude) WHERE latitude IS NOT NULL;
+
+-- Great-circle distance in kilometres using the Haversine formula
+CREATE OR REPLACE FUNCTION public.distance_km(lat1 double precision, lng1 double precision, lat2 double precision, lng2 double precision)
+RETURNS double precision
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT 6371 * 2 * asin(sqrt(
+    power(sin(radians(lat2 - lat1) / 2), 2) +
+    cos(radians(lat1)) * cos(radians(lat2)) * power(sin(radians(lng2 - lng1) / 2), 2)
+  ));
+$$;
+
+-- A request is within reach of a donor in the same district, or within the donor's radius when both have coordinates
+CREATE OR REPLACE FUNCTION public.is_within_reach(donor_user_id uuid, request_district text, request_latitude double precision, request_longitude double precision)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.user_id = donor_user_id
+      AND (
+        p.district = request_district
+        OR (
+          p.latitude IS NOT NULL AND request_latitude IS NOT NULL
+          AND distance_km(p.latitude, p.longitude, request_latitude, request_longitude) <= p.match_radius_km
+        )
+      )
+  );
+$$;
+
+DROP POLICY IF EXISTS "Users can view requests in their district with compatible blood group" ON public.requests;
+DROP POLICY IF EXISTS "Users can view claims for requests they can see" ON public.claims;
+
+CREATE POLICY "Users can view requests in their district with compatible blood group" ON public.requests
+    FOR SELECT USING (
+        (status = 'open' AND expires_at > now()
+         AND public.is_within_reach(auth.uid(), district, latitude, longitude)
+         AND public.is_compatible_donor(auth.uid(), blood_group, component)
+         AND requester_id != auth.uid())
+        OR requester_id = auth.uid()
+    );
+
+CREATE POLICY "Users can view claims for requests they can see" ON public.claims
+    FOR SELECT USING (
+        request_id IN (
+            SELECT id FROM public.requests
+            WHERE (public.is_within_reach(auth.uid(), district, latitude, longitude)
+                  AND public.is_compatible_donor(auth.uid(), blood_group, component))
+               OR requester_id = auth.uid()
+        )
+    );
+
+CREATE OR REPLACE FUNCTION public.get_safe_requests()
+RETURNS TABLE (
+  id uuid,
+  blood_group blood_group,
+  component blood_component,
+  requester_id uuid,
+  requester_name text,
+  requester_phone text,
+  district text,
+  state text,
+  location_description text,
+  message text,
+  status request_status,
+  expires_at timestamp with time zone,
+  created_at timestamp with time zone,
+  updated_at timestamp with time zone
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    r.id,
+    r.blood_group,
+    r.component,
+    r.requester_id,
+    r.requester_name,
+    -- Only return phone number if the user owns the request OR has an approved contact request
+    CASE
+      WHEN r.requester_id = auth.uid() THEN r.requester_phone
+      WHEN EXISTS (
+        SELECT 1 FROM contact_requests cr
+        WHERE cr.request_id = r.id
+        AND cr.donor_id = auth.uid()
+        AND cr.status = 'approved'
+      ) THEN r.requester_phone
+      ELSE NULL
+    END as requester_phone,
+    r.district,
+    r.state,
+    r.location_description,
+    r.message,
+    r.status,
+    r.expires_at,
+    r.created_at,
+    r.updated_at
+  FROM requests r
+  WHERE r.status = 'open'
+    AND r.expires_at > now()
+    AND (
+      -- Show requests within the user's reach for a component the user can donate
+      (is_within_reach(auth.uid(), r.district, r.latitude, r.longitude)
+       AND is_compatible_donor(auth.uid(), r.blood_group, r.component)
+       AND r.requester_id <> auth.uid())
+      -- Always show user's own requests
+      OR r.requester_id = auth.uid()
+    )
+  ORDER BY r.created_at DESC;
+$$;
+
+-- Recurring occurrences keep the coordinates of their series
+CREATE OR REPLACE FUNCTION public.materialise_recurring_requests()
+RETURNS SETOF uuid AS $$
+DECLARE
+    template public.recurring_requests%ROWTYPE;
+    new_request_id uuid;
+BEGIN
+    FOR template IN
+        SELECT * FROM public.recurring_requests
+        WHERE status = 'active'
+          AND next_needed_at <= now() + interval '3 days'
+        FOR UPDATE SKIP LOCKED
+    LOOP
+        -- Occurrences already in the past are skipped rather than posted late
+        IF template.next_needed_at > now() THEN
+            INSERT INTO public.requests (
+                requester_id, blood_group, component, units_needed,
+                requester_name, requester_phone, district, state,
+                latitude, longitude, location_description, message,
+                urgency, needed_by, recurring_request_id
+            ) VALUES (
+                template.requester_id, template.blood_group, template.component, template.units_needed,
+                template.requester_name, template.requester_phone, template.district, template.state,
+                template.latitude, template.longitude, template.location_description, template.message,
+                'scheduled', template.next_needed_at, template.id
+            )
+            RETURNING id INTO new_request_id;
+
+            RETURN NEXT new_request_id;
+        END IF;
+
+        UPDATE public.recurring_requests
+        SET next_needed_at = next_needed_at + make_interval(days => cadence_days),
+            last_materialised_at = now()
+        WHERE id = template.id;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
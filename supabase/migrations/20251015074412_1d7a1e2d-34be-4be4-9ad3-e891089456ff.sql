@@ -0,0 +1,1226 @@
+-- Canonical state and district catalogue so locations match on IDs instead of free text
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+CREATE TABLE public.states (
+    id SERIAL PRIMARY KEY,
+    name TEXT NOT NULL UNIQUE
+);
+
+CREATE TABLE public.districts (
+    id SERIAL PRIMARY KEY,
+    state_id INTEGER NOT NULL REFERENCES public.states(id),
+    name TEXT NOT NULL,
+    -- Former and colloquial names, used when matching free text
+    aliases TEXT[] NOT NULL DEFAULT '{}',
+    UNIQUE (state_id, name)
+);
+
+CREATE INDEX idx_districts_state_id ON public.districts(state_id);
+
+ALTER TABLE public.states ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.districts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view states" ON public.states
+    FOR SELECT USING (true);
+
+CREATE POLICY "Anyone can view districts" ON public.districts
+    FOR SELECT USING (true);
+
+-- States and union territories of India
+INSERT INTO public.states (name) VALUES
+    ('Andaman and Nicobar Islands'),
+    ('Andhra Pradesh'),
+    ('Arunachal Pradesh'),
+    ('Assam'),
+    ('Bihar'),
+    ('Chandigarh'),
+    ('Chhattisgarh'),
+    ('Dadra and Nagar Haveli and Daman and Diu'),
+    ('Delhi'),
+    ('Goa'),
+    ('Gujarat'),
+    ('Haryana'),
+    ('Himachal Pradesh'),
+    ('Jammu and Kashmir'),
+    ('Jharkhand'),
+    ('Karnataka'),
+    ('Kerala'),
+    ('Ladakh'),
+    ('Lakshadweep'),
+    ('Madhya Pradesh'),
+    ('Maharashtra'),
+    ('Manipur'),
+    ('Meghalaya'),
+    ('Mizoram'),
+    ('Nagaland'),
+    ('Odisha'),
+    ('Puducherry'),
+    ('Punjab'),
+    ('Rajasthan'),
+    ('Sikkim'),
+    ('Tamil Nadu'),
+    ('Telangana'),
+    ('Tripura'),
+    ('Uttar Pradesh'),
+    ('Uttarakhand'),
+    ('West Bengal');
+
+-- Districts per state
+INSERT INTO public.districts (state_id, name)
+SELECT s.id, d.name
+FROM (VALUES
+    ('Andaman and Nicobar Islands', 'Nicobar'),
+    ('Andaman and Nicobar Islands', 'North and Middle Andaman'),
+    ('Andaman and Nicobar Islands', 'South Andaman'),
+    ('Andhra Pradesh', 'Alluri Sitharama Raju'),
+    ('Andhra Pradesh', 'Anakapalli'),
+    ('Andhra Pradesh', 'Anantapur'),
+    ('Andhra Pradesh', 'Annamayya'),
+    ('Andhra Pradesh', 'Bapatla'),
+    ('Andhra Pradesh', 'Chittoor'),
+    ('Andhra Pradesh', 'Dr. B.R. Ambedkar Konaseema'),
+    ('Andhra Pradesh', 'East Godavari'),
+    ('Andhra Pradesh', 'Eluru'),
+    ('Andhra Pradesh', 'Guntur'),
+    ('Andhra Pradesh', 'Kakinada'),
+    ('Andhra Pradesh', 'Krishna'),
+    ('Andhra Pradesh', 'Kurnool'),
+    ('Andhra Pradesh', 'Nandyal'),
+    ('Andhra Pradesh', 'NTR'),
+    ('Andhra Pradesh', 'Palnadu'),
+    ('Andhra Pradesh', 'Parvathipuram Manyam'),
+    ('Andhra Pradesh', 'Prakasam'),
+    ('Andhra Pradesh', 'Sri Potti Sriramulu Nellore'),
+    ('Andhra Pradesh', 'Sri Sathya Sai'),
+    ('Andhra Pradesh', 'Srikakulam'),
+    ('Andhra Pradesh', 'Tirupati'),
+    ('Andhra Pradesh', 'Visakhapatnam'),
+    ('Andhra Pradesh', 'Vizianagaram'),
+    ('Andhra Pradesh', 'West Godavari'),
+    ('Andhra Pradesh', 'YSR Kadapa'),
+    ('Arunachal Pradesh', 'Anjaw'),
+    ('Arunachal Pradesh', 'Bichom'),
+    ('Arunachal Pradesh', 'Changlang'),
+    ('Arunachal Pradesh', 'Dibang Valley'),
+    ('Arunachal Pradesh', 'East Kameng'),
+    ('Arunachal Pradesh', 'East Siang'),
+    ('Arunachal Pradesh', 'Kamle'),
+    ('Arunachal Pradesh', 'Keyi Panyor'),
+    ('Arunachal Pradesh', 'Kra Daadi'),
+    ('Arunachal Pradesh', 'Kurung Kumey'),
+    ('Arunachal Pradesh', 'Leparada'),
+    ('Arunachal Pradesh', 'Lohit'),
+    ('Arunachal Pradesh', 'Longding'),
+    ('Arunachal Pradesh', 'Lower Dibang Valley'),
+    ('Arunachal Pradesh', 'Lower Siang'),
+    ('Arunachal Pradesh', 'Lower Subansiri'),
+    ('Arunachal Pradesh', 'Namsai'),
+    ('Arunachal Pradesh', 'Pakke Kessang'),
+    ('Arunachal Pradesh', 'Papum Pare'),
+    ('Arunachal Pradesh', 'Shi Yomi'),
+    ('Arunachal Pradesh', 'Siang'),
+    ('Arunachal Pradesh', 'Tawang'),
+    ('Arunachal Pradesh', 'Tirap'),
+    ('Arunachal Pradesh', 'Upper Siang'),
+    ('Arunachal Pradesh', 'Upper Subansiri'),
+    ('Arunachal Pradesh', 'West Kameng'),
+    ('Arunachal Pradesh', 'West Siang'),
+    ('Assam', 'Bajali'),
+    ('Assam', 'Baksa'),
+    ('Assam', 'Barpeta'),
+    ('Assam', 'Biswanath'),
+    ('Assam', 'Bongaigaon'),
+    ('Assam', 'Cachar'),
+    ('Assam', 'Charaideo'),
+    ('Assam', 'Chirang'),
+    ('Assam', 'Darrang'),
+    ('Assam', 'Dhemaji'),
+    ('Assam', 'Dhubri'),
+    ('Assam', 'Dibrugarh'),
+    ('Assam', 'Dima Hasao'),
+    ('Assam', 'Goalpara'),
+    ('Assam', 'Golaghat'),
+    ('Assam', 'Hailakandi'),
+    ('Assam', 'Hojai'),
+    ('Assam', 'Jorhat'),
+    ('Assam', 'Kamrup'),
+    ('Assam', 'Kamrup Metropolitan'),
+    ('Assam', 'Karbi Anglong'),
+    ('Assam', 'Kokrajhar'),
+    ('Assam', 'Lakhimpur'),
+    ('Assam', 'Majuli'),
+    ('Assam', 'Morigaon'),
+    ('Assam', 'Nagaon'),
+    ('Assam', 'Nalbari'),
+    ('Assam', 'Sivasagar'),
+    ('Assam', 'Sonitpur'),
+    ('Assam', 'South Salmara-Mankachar'),
+    ('Assam', 'Sribhumi'),
+    ('Assam', 'Tamulpur'),
+    ('Assam', 'Tinsukia'),
+    ('Assam', 'Udalguri'),
+    ('Assam', 'West Karbi Anglong'),
+    ('Bihar', 'Araria'),
+    ('Bihar', 'Arwal'),
+    ('Bihar', 'Aurangabad'),
+    ('Bihar', 'Banka'),
+    ('Bihar', 'Begusarai'),
+    ('Bihar', 'Bhagalpur'),
+    ('Bihar', 'Bhojpur'),
+    ('Bihar', 'Buxar'),
+    ('Bihar', 'Darbhanga'),
+    ('Bihar', 'East Champaran'),
+    ('Bihar', 'Gaya'),
+    ('Bihar', 'Gopalganj'),
+    ('Bihar', 'Jamui'),
+    ('Bihar', 'Jehanabad'),
+    ('Bihar', 'Kaimur'),
+    ('Bihar', 'Katihar'),
+    ('Bihar', 'Khagaria'),
+    ('Bihar', 'Kishanganj'),
+    ('Bihar', 'Lakhisarai'),
+    ('Bihar', 'Madhepura'),
+    ('Bihar', 'Madhubani'),
+    ('Bihar', 'Munger'),
+    ('Bihar', 'Muzaffarpur'),
+    ('Bihar', 'Nalanda'),
+    ('Bihar', 'Nawada'),
+    ('Bihar', 'Patna'),
+    ('Bihar', 'Purnia'),
+    ('Bihar', 'Rohtas'),
+    ('Bihar', 'Saharsa'),
+    ('Bihar', 'Samastipur'),
+    ('Bihar', 'Saran'),
+    ('Bihar', 'Sheikhpura'),
+    ('Bihar', 'Sheohar'),
+    ('Bihar', 'Sitamarhi'),
+    ('Bihar', 'Siwan'),
+    ('Bihar', 'Supaul'),
+    ('Bihar', 'Vaishali'),
+    ('Bihar', 'West Champaran'),
+    ('Chandigarh', 'Chandigarh'),
+    ('Chhattisgarh', 'Balod'),
+    ('Chhattisgarh', 'Baloda Bazar'),
+    ('Chhattisgarh', 'Balrampur'),
+    ('Chhattisgarh', 'Bastar'),
+    ('Chhattisgarh', 'Bemetara'),
+    ('Chhattisgarh', 'Bijapur'),
+    ('Chhattisgarh', 'Bilaspur'),
+    ('Chhattisgarh', 'Dantewada'),
+    ('Chhattisgarh', 'Dhamtari'),
+    ('Chhattisgarh', 'Durg'),
+    ('Chhattisgarh', 'Gariaband'),
+    ('Chhattisgarh', 'Gaurela-Pendra-Marwahi'),
+    ('Chhattisgarh', 'Janjgir-Champa'),
+    ('Chhattisgarh', 'Jashpur'),
+    ('Chhattisgarh', 'Kabirdham'),
+    ('Chhattisgarh', 'Kanker'),
+    ('Chhattisgarh', 'Khairagarh-Chhuikhadan-Gandai'),
+    ('Chhattisgarh', 'Kondagaon'),
+    ('Chhattisgarh', 'Korba'),
+    ('Chhattisgarh', 'Koriya'),
+    ('Chhattisgarh', 'Mahasamund'),
+    ('Chhattisgarh', 'Manendragarh-Chirmiri-Bharatpur'),
+    ('Chhattisgarh', 'Mohla-Manpur-Ambagarh Chowki'),
+    ('Chhattisgarh', 'Mungeli'),
+    ('Chhattisgarh', 'Narayanpur'),
+    ('Chhattisgarh', 'Raigarh'),
+    ('Chhattisgarh', 'Raipur'),
+    ('Chhattisgarh', 'Rajnandgaon'),
+    ('Chhattisgarh', 'Sakti'),
+    ('Chhattisgarh', 'Sarangarh-Bilaigarh'),
+    ('Chhattisgarh', 'Sukma'),
+    ('Chhattisgarh', 'Surajpur'),
+    ('Chhattisgarh', 'Surguja'),
+    ('Dadra and Nagar Haveli and Daman and Diu', 'Dadra and Nagar Haveli'),
+    ('Dadra and Nagar Haveli and Daman and Diu', 'Daman'),
+    ('Dadra and Nagar Haveli and Daman and Diu', 'Diu'),
+    ('Delhi', 'Central Delhi'),
+    ('Delhi', 'East Delhi'),
+    ('Delhi', 'New Delhi'),
+    ('Delhi', 'North Delhi'),
+    ('Delhi', 'North East Delhi'),
+    ('Delhi', 'North West Delhi'),
+    ('Delhi', 'Shahdara'),
+    ('Delhi', 'South Delhi'),
+    ('Delhi', 'South East Delhi'),
+    ('Delhi', 'South West Delhi'),
+    ('Delhi', 'West Delhi'),
+    ('Goa', 'North Goa'),
+    ('Goa', 'South Goa'),
+    ('Gujarat', 'Ahmedabad'),
+    ('Gujarat', 'Amreli'),
+    ('Gujarat', 'Anand'),
+    ('Gujarat', 'Aravalli'),
+    ('Gujarat', 'Banaskantha'),
+    ('Gujarat', 'Bharuch'),
+    ('Gujarat', 'Bhavnagar'),
+    ('Gujarat', 'Botad'),
+    ('Gujarat', 'Chhota Udaipur'),
+    ('Gujarat', 'Dahod'),
+    ('Gujarat', 'Dang'),
+    ('Gujarat', 'Devbhoomi Dwarka'),
+    ('Gujarat', 'Gandhinagar'),
+    ('Gujarat', 'Gir Somnath'),
+    ('Gujarat', 'Jamnagar'),
+    ('Gujarat', 'Junagadh'),
+    ('Gujarat', 'Kheda'),
+    ('Gujarat', 'Kutch'),
+    ('Gujarat', 'Mahisagar'),
+    ('Gujarat', 'Mehsana'),
+    ('Gujarat', 'Morbi'),
+    ('Gujarat', 'Narmada'),
+    ('Gujarat', 'Navsari'),
+    ('Gujarat', 'Panchmahal'),
+    ('Gujarat', 'Patan'),
+    ('Gujarat', 'Porbandar'),
+    ('Gujarat', 'Rajkot'),
+    ('Gujarat', 'Sabarkantha'),
+    ('Gujarat', 'Surat'),
+    ('Gujarat', 'Surendranagar'),
+    ('Gujarat', 'Tapi'),
+    ('Gujarat', 'Vadodara'),
+    ('Gujarat', 'Valsad'),
+    ('Haryana', 'Ambala'),
+    ('Haryana', 'Bhiwani'),
+    ('Haryana', 'Charkhi Dadri'),
+    ('Haryana', 'Faridabad'),
+    ('Haryana', 'Fatehabad'),
+    ('Haryana', 'Gurugram'),
+    ('Haryana', 'Hisar'),
+    ('Haryana', 'Jhajjar'),
+    ('Haryana', 'Jind'),
+    ('Haryana', 'Kaithal'),
+    ('Haryana', 'Karnal'),
+    ('Haryana', 'Kurukshetra'),
+    ('Haryana', 'Mahendragarh'),
+    ('Haryana', 'Nuh'),
+    ('Haryana', 'Palwal'),
+    ('Haryana', 'Panchkula'),
+    ('Haryana', 'Panipat'),
+    ('Haryana', 'Rewari'),
+    ('Haryana', 'Rohtak'),
+    ('Haryana', 'Sirsa'),
+    ('Haryana', 'Sonipat'),
+    ('Haryana', 'Yamunanagar'),
+    ('Himachal Pradesh', 'Bilaspur'),
+    ('Himachal Pradesh', 'Chamba'),
+    ('Himachal Pradesh', 'Hamirpur'),
+    ('Himachal Pradesh', 'Kangra'),
+    ('Himachal Pradesh', 'Kinnaur'),
+    ('Himachal Pradesh', 'Kullu'),
+    ('Himachal Pradesh', 'Lahaul and Spiti'),
+    ('Himachal Pradesh', 'Mandi'),
+    ('Himachal Pradesh', 'Shimla'),
+    ('Himachal Pradesh', 'Sirmaur'),
+    ('Himachal Pradesh', 'Solan'),
+    ('Himachal Pradesh', 'Una'),
+    ('Jammu and Kashmir', 'Anantnag'),
+    ('Jammu and Kashmir', 'Bandipora'),
+    ('Jammu and Kashmir', 'Baramulla'),
+    ('Jammu and Kashmir', 'Budgam'),
+    ('Jammu and Kashmir', 'Doda'),
+    ('Jammu and Kashmir', 'Ganderbal'),
+    ('Jammu and Kashmir', 'Jammu'),
+    ('Jammu and Kashmir', 'Kathua'),
+    ('Jammu and Kashmir', 'Kishtwar'),
+    ('Jammu and Kashmir', 'Kulgam'),
+    ('Jammu and Kashmir', 'Kupwara'),
+    ('Jammu and Kashmir', 'Poonch'),
+    ('Jammu and Kashmir', 'Pulwama'),
+    ('Jammu and Kashmir', 'Rajouri'),
+    ('Jammu and Kashmir', 'Ramban'),
+    ('Jammu and Kashmir', 'Reasi'),
+    ('Jammu and Kashmir', 'Samba'),
+    ('Jammu and Kashmir', 'Shopian'),
+    ('Jammu and Kashmir', 'Srinagar'),
+    ('Jammu and Kashmir', 'Udhampur'),
+    ('Jharkhand', 'Bokaro'),
+    ('Jharkhand', 'Chatra'),
+    ('Jharkhand', 'Deoghar'),
+    ('Jharkhand', 'Dhanbad'),
+    ('Jharkhand', 'Dumka'),
+    ('Jharkhand', 'East Singhbhum'),
+    ('Jharkhand', 'Garhwa'),
+    ('Jharkhand', 'Giridih'),
+    ('Jharkhand', 'Godda'),
+    ('Jharkhand', 'Gumla'),
+    ('Jharkhand', 'Hazaribagh'),
+    ('Jharkhand', 'Jamtara'),
+    ('Jharkhand', 'Khunti'),
+    ('Jharkhand', 'Koderma'),
+    ('Jharkhand', 'Latehar'),
+    ('Jharkhand', 'Lohardaga'),
+    ('Jharkhand', 'Pakur'),
+    ('Jharkhand', 'Palamu'),
+    ('Jharkhand', 'Ramgarh'),
+    ('Jharkhand', 'Ranchi'),
+    ('Jharkhand', 'Sahebganj'),
+    ('Jharkhand', 'Seraikela Kharsawan'),
+    ('Jharkhand', 'Simdega'),
+    ('Jharkhand', 'West Singhbhum'),
+    ('Karnataka', 'Bagalkot'),
+    ('Karnataka', 'Ballari'),
+    ('Karnataka', 'Belagavi'),
+    ('Karnataka', 'Bengaluru Rural'),
+    ('Karnataka', 'Bengaluru Urban'),
+    ('Karnataka', 'Bidar'),
+    ('Karnataka', 'Chamarajanagar'),
+    ('Karnataka', 'Chikkaballapur'),
+    ('Karnataka', 'Chikkamagaluru'),
+    ('Karnataka', 'Chitradurga'),
+    ('Karnataka', 'Dakshina Kannada'),
+    ('Karnataka', 'Davanagere'),
+    ('Karnataka', 'Dharwad'),
+    ('Karnataka', 'Gadag'),
+    ('Karnataka', 'Hassan'),
+    ('Karnataka', 'Haveri'),
+    ('Karnataka', 'Kalaburagi'),
+    ('Karnataka', 'Kodagu'),
+    ('Karnataka', 'Kolar'),
+    ('Karnataka', 'Koppal'),
+    ('Karnataka', 'Mandya'),
+    ('Karnataka', 'Mysuru'),
+    ('Karnataka', 'Raichur'),
+    ('Karnataka', 'Ramanagara'),
+    ('Karnataka', 'Shivamogga'),
+    ('Karnataka', 'Tumakuru'),
+    ('Karnataka', 'Udupi'),
+    ('Karnataka', 'Uttara Kannada'),
+    ('Karnataka', 'Vijayanagara'),
+    ('Karnataka', 'Vijayapura'),
+    ('Karnataka', 'Yadgir'),
+    ('Kerala', 'Alappuzha'),
+    ('Kerala', 'Ernakulam'),
+    ('Kerala', 'Idukki'),
+    ('Kerala', 'Kannur'),
+    ('Kerala', 'Kasaragod'),
+    ('Kerala', 'Kollam'),
+    ('Kerala', 'Kottayam'),
+    ('Kerala', 'Kozhikode'),
+    ('Kerala', 'Malappuram'),
+    ('Kerala', 'Palakkad'),
+    ('Kerala', 'Pathanamthitta'),
+    ('Kerala', 'Thiruvananthapuram'),
+    ('Kerala', 'Thrissur'),
+    ('Kerala', 'Wayanad'),
+    ('Ladakh', 'Kargil'),
+    ('Ladakh', 'Leh'),
+    ('Lakshadweep', 'Lakshadweep'),
+    ('Madhya Pradesh', 'Agar Malwa'),
+    ('Madhya Pradesh', 'Alirajpur'),
+    ('Madhya Pradesh', 'Anuppur'),
+    ('Madhya Pradesh', 'Ashoknagar'),
+    ('Madhya Pradesh', 'Balaghat'),
+    ('Madhya Pradesh', 'Barwani'),
+    ('Madhya Pradesh', 'Betul'),
+    ('Madhya Pradesh', 'Bhind'),
+    ('Madhya Pradesh', 'Bhopal'),
+    ('Madhya Pradesh', 'Burhanpur'),
+    ('Madhya Pradesh', 'Chhatarpur'),
+    ('Madhya Pradesh', 'Chhindwara'),
+    ('Madhya Pradesh', 'Damoh'),
+    ('Madhya Pradesh', 'Datia'),
+    ('Madhya Pradesh', 'Dewas'),
+    ('Madhya Pradesh', 'Dhar'),
+    ('Madhya Pradesh', 'Dindori'),
+    ('Madhya Pradesh', 'Guna'),
+    ('Madhya Pradesh', 'Gwalior'),
+    ('Madhya Pradesh', 'Harda'),
+    ('Madhya Pradesh', 'Indore'),
+    ('Madhya Pradesh', 'Jabalpur'),
+    ('Madhya Pradesh', 'Jhabua'),
+    ('Madhya Pradesh', 'Katni'),
+    ('Madhya Pradesh', 'Khandwa'),
+    ('Madhya Pradesh', 'Khargone'),
+    ('Madhya Pradesh', 'Maihar'),
+    ('Madhya Pradesh', 'Mandla'),
+    ('Madhya Pradesh', 'Mandsaur'),
+    ('Madhya Pradesh', 'Mauganj'),
+    ('Madhya Pradesh', 'Morena'),
+    ('Madhya Pradesh', 'Narmadapuram'),
+    ('Madhya Pradesh', 'Narsinghpur'),
+    ('Madhya Pradesh', 'Neemuch'),
+    ('Madhya Pradesh', 'Niwari'),
+    ('Madhya Pradesh', 'Pandhurna'),
+    ('Madhya Pradesh', 'Panna'),
+    ('Madhya Pradesh', 'Raisen'),
+    ('Madhya Pradesh', 'Rajgarh'),
+    ('Madhya Pradesh', 'Ratlam'),
+    ('Madhya Pradesh', 'Rewa'),
+    ('Madhya Pradesh', 'Sagar'),
+    ('Madhya Pradesh', 'Satna'),
+    ('Madhya Pradesh', 'Sehore'),
+    ('Madhya Pradesh', 'Seoni'),
+    ('Madhya Pradesh', 'Shahdol'),
+    ('Madhya Pradesh', 'Shajapur'),
+    ('Madhya Pradesh', 'Sheopur'),
+    ('Madhya Pradesh', 'Shivpuri'),
+    ('Madhya Pradesh', 'Sidhi'),
+    ('Madhya Pradesh', 'Singrauli'),
+    ('Madhya Pradesh', 'Tikamgarh'),
+    ('Madhya Pradesh', 'Ujjain'),
+    ('Madhya Pradesh', 'Umaria'),
+    ('Madhya Pradesh', 'Vidisha'),
+    ('Maharashtra', 'Ahilyanagar'),
+    ('Maharashtra', 'Akola'),
+    ('Maharashtra', 'Amravati'),
+    ('Maharashtra', 'Beed'),
+    ('Maharashtra', 'Bhandara'),
+    ('Maharashtra', 'Buldhana'),
+    ('Maharashtra', 'Chandrapur'),
+    ('Maharashtra', 'Chhatrapati Sambhajinagar'),
+    ('Maharashtra', 'Dharashiv'),
+    ('Maharashtra', 'Dhule'),
+    ('Maharashtra', 'Gadchiroli'),
+    ('Maharashtra', 'Gondia'),
+    ('Maharashtra', 'Hingoli'),
+    ('Maharashtra', 'Jalgaon'),
+    ('Maharashtra', 'Jalna'),
+    ('Maharashtra', 'Kolhapur'),
+    ('Maharashtra', 'Latur'),
+    ('Maharashtra', 'Mumbai City'),
+    ('Maharashtra', 'Mumbai Suburban'),
+    ('Maharashtra', 'Nagpur'),
+    ('Maharashtra', 'Nanded'),
+    ('Maharashtra', 'Nandurbar'),
+    ('Maharashtra', 'Nashik'),
+    ('Maharashtra', 'Palghar'),
+    ('Maharashtra', 'Parbhani'),
+    ('Maharashtra', 'Pune'),
+    ('Maharashtra', 'Raigad'),
+    ('Maharashtra', 'Ratnagiri'),
+    ('Maharashtra', 'Sangli'),
+    ('Maharashtra', 'Satara'),
+    ('Maharashtra', 'Sindhudurg'),
+    ('Maharashtra', 'Solapur'),
+    ('Maharashtra', 'Thane'),
+    ('Maharashtra', 'Wardha'),
+    ('Maharashtra', 'Washim'),
+    ('Maharashtra', 'Yavatmal'),
+    ('Manipur', 'Bishnupur'),
+    ('Manipur', 'Chandel'),
+    ('Manipur', 'Churachandpur'),
+    ('Manipur', 'Imphal East'),
+    ('Manipur', 'Imphal West'),
+    ('Manipur', 'Jiribam'),
+    ('Manipur', 'Kakching'),
+    ('Manipur', 'Kamjong'),
+    ('Manipur', 'Kangpokpi'),
+    ('Manipur', 'Noney'),
+    ('Manipur', 'Pherzawl'),
+    ('Manipur', 'Senapati'),
+    ('Manipur', 'Tamenglong'),
+    ('Manipur', 'Tengnoupal'),
+    ('Manipur', 'Thoubal'),
+    ('Manipur', 'Ukhrul'),
+    ('Meghalaya', 'East Garo Hills'),
+    ('Meghalaya', 'East Jaintia Hills'),
+    ('Meghalaya', 'East Khasi Hills'),
+    ('Meghalaya', 'Eastern West Khasi Hills'),
+    ('Meghalaya', 'North Garo Hills'),
+    ('Meghalaya', 'Ri Bhoi'),
+    ('Meghalaya', 'South Garo Hills'),
+    ('Meghalaya', 'South West Garo Hills'),
+    ('Meghalaya', 'South West Khasi Hills'),
+    ('Meghalaya', 'West Garo Hills'),
+    ('Meghalaya', 'West Jaintia Hills'),
+    ('Meghalaya', 'West Khasi Hills'),
+    ('Mizoram', 'Aizawl'),
+    ('Mizoram', 'Champhai'),
+    ('Mizoram', 'Hnahthial'),
+    ('Mizoram', 'Khawzawl'),
+    ('Mizoram', 'Kolasib'),
+    ('Mizoram', 'Lawngtlai'),
+    ('Mizoram', 'Lunglei'),
+    ('Mizoram', 'Mamit'),
+    ('Mizoram', 'Saitual'),
+    ('Mizoram', 'Serchhip'),
+    ('Mizoram', 'Siaha'),
+    ('Nagaland', 'Chumoukedima'),
+    ('Nagaland', 'Dimapur'),
+    ('Nagaland', 'Kiphire'),
+    ('Nagaland', 'Kohima'),
+    ('Nagaland', 'Longleng'),
+    ('Nagaland', 'Meluri'),
+    ('Nagaland', 'Mokokchung'),
+    ('Nagaland', 'Mon'),
+    ('Nagaland', 'Niuland'),
+    ('Nagaland', 'Noklak'),
+    ('Nagaland', 'Peren'),
+    ('Nagaland', 'Phek'),
+    ('Nagaland', 'Shamator'),
+    ('Nagaland', 'Tseminyu'),
+    ('Nagaland', 'Tuensang'),
+    ('Nagaland', 'Wokha'),
+    ('Nagaland', 'Zunheboto'),
+    ('Odisha', 'Angul'),
+    ('Odisha', 'Balangir'),
+    ('Odisha', 'Balasore'),
+    ('Odisha', 'Bargarh'),
+    ('Odisha', 'Bhadrak'),
+    ('Odisha', 'Boudh'),
+    ('Odisha', 'Cuttack'),
+    ('Odisha', 'Deogarh'),
+    ('Odisha', 'Dhenkanal'),
+    ('Odisha', 'Gajapati'),
+    ('Odisha', 'Ganjam'),
+    ('Odisha', 'Jagatsinghpur'),
+    ('Odisha', 'Jajpur'),
+    ('Odisha', 'Jharsuguda'),
+    ('Odisha', 'Kalahandi'),
+    ('Odisha', 'Kandhamal'),
+    ('Odisha', 'Kendrapara'),
+    ('Odisha', 'Kendujhar'),
+    ('Odisha', 'Khordha'),
+    ('Odisha', 'Koraput'),
+    ('Odisha', 'Malkangiri'),
+    ('Odisha', 'Mayurbhanj'),
+    ('Odisha', 'Nabarangpur'),
+    ('Odisha', 'Nayagarh'),
+    ('Odisha', 'Nuapada'),
+    ('Odisha', 'Puri'),
+    ('Odisha', 'Rayagada'),
+    ('Odisha', 'Sambalpur'),
+    ('Odisha', 'Subarnapur'),
+    ('Odisha', 'Sundargarh'),
+    ('Puducherry', 'Karaikal'),
+    ('Puducherry', 'Mahe'),
+    ('Puducherry', 'Puducherry'),
+    ('Puducherry', 'Yanam'),
+    ('Punjab', 'Amritsar'),
+    ('Punjab', 'Barnala'),
+    ('Punjab', 'Bathinda'),
+    ('Punjab', 'Faridkot'),
+    ('Punjab', 'Fatehgarh Sahib'),
+    ('Punjab', 'Fazilka'),
+    ('Punjab', 'Ferozepur'),
+    ('Punjab', 'Gurdaspur'),
+    ('Punjab', 'Hoshiarpur'),
+    ('Punjab', 'Jalandhar'),
+    ('Punjab', 'Kapurthala'),
+    ('Punjab', 'Ludhiana'),
+    ('Punjab', 'Malerkotla'),
+    ('Punjab', 'Mansa'),
+    ('Punjab', 'Moga'),
+    ('Punjab', 'Pathankot'),
+    ('Punjab', 'Patiala'),
+    ('Punjab', 'Rupnagar'),
+    ('Punjab', 'Sahibzada Ajit Singh Nagar'),
+    ('Punjab', 'Sangrur'),
+    ('Punjab', 'Shaheed Bhagat Singh Nagar'),
+    ('Punjab', 'Sri Muktsar Sahib'),
+    ('Punjab', 'Tarn Taran'),
+    ('Rajasthan', 'Ajmer'),
+    ('Rajasthan', 'Alwar'),
+    ('Rajasthan', 'Balotra'),
+    ('Rajasthan', 'Banswara'),
+    ('Rajasthan', 'Baran'),
+    ('Rajasthan', 'Barmer'),
+    ('Rajasthan', 'Beawar'),
+    ('Rajasthan', 'Bharatpur'),
+    ('Rajasthan', 'Bhilwara'),
+    ('Rajasthan', 'Bikaner'),
+    ('Rajasthan', 'Bundi'),
+    ('Rajasthan', 'Chittorgarh'),
+    ('Rajasthan', 'Churu'),
+    ('Rajasthan', 'Dausa'),
+    ('Rajasthan', 'Deeg'),
+    ('Rajasthan', 'Dholpur'),
+    ('Rajasthan', 'Didwana-Kuchaman'),
+    ('Rajasthan', 'Dungarpur'),
+    ('Rajasthan', 'Hanumangarh'),
+    ('Rajasthan', 'Jaipur'),
+    ('Rajasthan', 'Jaisalmer'),
+    ('Rajasthan', 'Jalore'),
+    ('Rajasthan', 'Jhalawar'),
+    ('Rajasthan', 'Jhunjhunu'),
+    ('Rajasthan', 'Jodhpur'),
+    ('Rajasthan', 'Karauli'),
+    ('Rajasthan', 'Khairthal-Tijara'),
+    ('Rajasthan', 'Kota'),
+    ('Rajasthan', 'Kotputli-Behror'),
+    ('Rajasthan', 'Nagaur'),
+    ('Rajasthan', 'Pali'),
+    ('Rajasthan', 'Phalodi'),
+    ('Rajasthan', 'Pratapgarh'),
+    ('Rajasthan', 'Rajsamand'),
+    ('Rajasthan', 'Salumbar'),
+    ('Rajasthan', 'Sawai Madhopur'),
+    ('Rajasthan', 'Sikar'),
+    ('Rajasthan', 'Sirohi'),
+    ('Rajasthan', 'Sri Ganganagar'),
+    ('Rajasthan', 'Tonk'),
+    ('Rajasthan', 'Udaipur'),
+    ('Sikkim', 'Gangtok'),
+    ('Sikkim', 'Gyalshing'),
+    ('Sikkim', 'Mangan'),
+    ('Sikkim', 'Namchi'),
+    ('Sikkim', 'Pakyong'),
+    ('Sikkim', 'Soreng'),
+    ('Tamil Nadu', 'Ariyalur'),
+    ('Tamil Nadu', 'Chengalpattu'),
+    ('Tamil Nadu', 'Chennai'),
+    ('Tamil Nadu', 'Coimbatore'),
+    ('Tamil Nadu', 'Cuddalore'),
+    ('Tamil Nadu', 'Dharmapuri'),
+    ('Tamil Nadu', 'Dindigul'),
+    ('Tamil Nadu', 'Erode'),
+    ('Tamil Nadu', 'Kallakurichi'),
+    ('Tamil Nadu', 'Kanchipuram'),
+    ('Tamil Nadu', 'Kanyakumari'),
+    ('Tamil Nadu', 'Karur'),
+    ('Tamil Nadu', 'Krishnagiri'),
+    ('Tamil Nadu', 'Madurai'),
+    ('Tamil Nadu', 'Mayiladuthurai'),
+    ('Tamil Nadu', 'Nagapattinam'),
+    ('Tamil Nadu', 'Namakkal'),
+    ('Tamil Nadu', 'Nilgiris'),
+    ('Tamil Nadu', 'Perambalur'),
+    ('Tamil Nadu', 'Pudukkottai'),
+    ('Tamil Nadu', 'Ramanathapuram'),
+    ('Tamil Nadu', 'Ranipet'),
+    ('Tamil Nadu', 'Salem'),
+    ('Tamil Nadu', 'Sivaganga'),
+    ('Tamil Nadu', 'Tenkasi'),
+    ('Tamil Nadu', 'Thanjavur'),
+    ('Tamil Nadu', 'Theni'),
+    ('Tamil Nadu', 'Thoothukudi'),
+    ('Tamil Nadu', 'Tiruchirappalli'),
+    ('Tamil Nadu', 'Tirunelveli'),
+    ('Tamil Nadu', 'Tirupathur'),
+    ('Tamil Nadu', 'Tiruppur'),
+    ('Tamil Nadu', 'Tiruvallur'),
+    ('Tamil Nadu', 'Tiruvannamalai'),
+    ('Tamil Nadu', 'Tiruvarur'),
+    ('Tamil Nadu', 'Vellore'),
+    ('Tamil Nadu', 'Viluppuram'),
+    ('Tamil Nadu', 'Virudhunagar'),
+    ('Telangana', 'Adilabad'),
+    ('Telangana', 'Bhadradri Kothagudem'),
+    ('Telangana', 'Hanumakonda'),
+    ('Telangana', 'Hyderabad'),
+    ('Telangana', 'Jagtial'),
+    ('Telangana', 'Jangaon'),
+    ('Telangana', 'Jayashankar Bhupalpally'),
+    ('Telangana', 'Jogulamba Gadwal'),
+    ('Telangana', 'Kamareddy'),
+    ('Telangana', 'Karimnagar'),
+    ('Telangana', 'Khammam'),
+    ('Telangana', 'Kumuram Bheem Asifabad'),
+    ('Telangana', 'Mahabubabad'),
+    ('Telangana', 'Mahabubnagar'),
+    ('Telangana', 'Mancherial'),
+    ('Telangana', 'Medak'),
+    ('Telangana', 'Medchal-Malkajgiri'),
+    ('Telangana', 'Mulugu'),
+    ('Telangana', 'Nagarkurnool'),
+    ('Telangana', 'Nalgonda'),
+    ('Telangana', 'Narayanpet'),
+    ('Telangana', 'Nirmal'),
+    ('Telangana', 'Nizamabad'),
+    ('Telangana', 'Peddapalli'),
+    ('Telangana', 'Rajanna Sircilla'),
+    ('Telangana', 'Rangareddy'),
+    ('Telangana', 'Sangareddy'),
+    ('Telangana', 'Siddipet'),
+    ('Telangana', 'Suryapet'),
+    ('Telangana', 'Vikarabad'),
+    ('Telangana', 'Wanaparthy'),
+    ('Telangana', 'Warangal'),
+    ('Telangana', 'Yadadri Bhuvanagiri'),
+    ('Tripura', 'Dhalai'),
+    ('Tripura', 'Gomati'),
+    ('Tripura', 'Khowai'),
+    ('Tripura', 'North Tripura'),
+    ('Tripura', 'Sepahijala'),
+    ('Tripura', 'South Tripura'),
+    ('Tripura', 'Unakoti'),
+    ('Tripura', 'West Tripura'),
+    ('Uttar Pradesh', 'Agra'),
+    ('Uttar Pradesh', 'Aligarh'),
+    ('Uttar Pradesh', 'Ambedkar Nagar'),
+    ('Uttar Pradesh', 'Amethi'),
+    ('Uttar Pradesh', 'Amroha'),
+    ('Uttar Pradesh', 'Auraiya'),
+    ('Uttar Pradesh', 'Ayodhya'),
+    ('Uttar Pradesh', 'Azamgarh'),
+    ('Uttar Pradesh', 'Baghpat'),
+    ('Uttar Pradesh', 'Bahraich'),
+    ('Uttar Pradesh', 'Ballia'),
+    ('Uttar Pradesh', 'Balrampur'),
+    ('Uttar Pradesh', 'Banda'),
+    ('Uttar Pradesh', 'Barabanki'),
+    ('Uttar Pradesh', 'Bareilly'),
+    ('Uttar Pradesh', 'Basti'),
+    ('Uttar Pradesh', 'Bhadohi'),
+    ('Uttar Pradesh', 'Bijnor'),
+    ('Uttar Pradesh', 'Budaun'),
+    ('Uttar Pradesh', 'Bulandshahr'),
+    ('Uttar Pradesh', 'Chandauli'),
+    ('Uttar Pradesh', 'Chitrakoot'),
+    ('Uttar Pradesh', 'Deoria'),
+    ('Uttar Pradesh', 'Etah'),
+    ('Uttar Pradesh', 'Etawah'),
+    ('Uttar Pradesh', 'Farrukhabad'),
+    ('Uttar Pradesh', 'Fatehpur'),
+    ('Uttar Pradesh', 'Firozabad'),
+    ('Uttar Pradesh', 'Gautam Buddha Nagar'),
+    ('Uttar Pradesh', 'Ghaziabad'),
+    ('Uttar Pradesh', 'Ghazipur'),
+    ('Uttar Pradesh', 'Gonda'),
+    ('Uttar Pradesh', 'Gorakhpur'),
+    ('Uttar Pradesh', 'Hamirpur'),
+    ('Uttar Pradesh', 'Hapur'),
+    ('Uttar Pradesh', 'Hardoi'),
+    ('Uttar Pradesh', 'Hathras'),
+    ('Uttar Pradesh', 'Jalaun'),
+    ('Uttar Pradesh', 'Jaunpur'),
+    ('Uttar Pradesh', 'Jhansi'),
+    ('Uttar Pradesh', 'Kannauj'),
+    ('Uttar Pradesh', 'Kanpur Dehat'),
+    ('Uttar Pradesh', 'Kanpur Nagar'),
+    ('Uttar Pradesh', 'Kasganj'),
+    ('Uttar Pradesh', 'Kaushambi'),
+    ('Uttar Pradesh', 'Kushinagar'),
+    ('Uttar Pradesh', 'Lakhimpur Kheri'),
+    ('Uttar Pradesh', 'Lalitpur'),
+    ('Uttar Pradesh', 'Lucknow'),
+    ('Uttar Pradesh', 'Maharajganj'),
+    ('Uttar Pradesh', 'Mahoba'),
+    ('Uttar Pradesh', 'Mainpuri'),
+    ('Uttar Pradesh', 'Mathura'),
+    ('Uttar Pradesh', 'Mau'),
+    ('Uttar Pradesh', 'Meerut'),
+    ('Uttar Pradesh', 'Mirzapur'),
+    ('Uttar Pradesh', 'Moradabad'),
+    ('Uttar Pradesh', 'Muzaffarnagar'),
+    ('Uttar Pradesh', 'Pilibhit'),
+    ('Uttar Pradesh', 'Pratapgarh'),
+    ('Uttar Pradesh', 'Prayagraj'),
+    ('Uttar Pradesh', 'Rae Bareli'),
+    ('Uttar Pradesh', 'Rampur'),
+    ('Uttar Pradesh', 'Saharanpur'),
+    ('Uttar Pradesh', 'Sambhal'),
+    ('Uttar Pradesh', 'Sant Kabir Nagar'),
+    ('Uttar Pradesh', 'Shahjahanpur'),
+    ('Uttar Pradesh', 'Shamli'),
+    ('Uttar Pradesh', 'Shravasti'),
+    ('Uttar Pradesh', 'Siddharthnagar'),
+    ('Uttar Pradesh', 'Sitapur'),
+    ('Uttar Pradesh', 'Sonbhadra'),
+    ('Uttar Pradesh', 'Sultanpur'),
+    ('Uttar Pradesh', 'Unnao'),
+    ('Uttar Pradesh', 'Varanasi'),
+    ('Uttarakhand', 'Almora'),
+    ('Uttarakhand', 'Bageshwar'),
+    ('Uttarakhand', 'Chamoli'),
+    ('Uttarakhand', 'Champawat'),
+    ('Uttarakhand', 'Dehradun'),
+    ('Uttarakhand', 'Haridwar'),
+    ('Uttarakhand', 'Nainital'),
+    ('Uttarakhand', 'Pauri Garhwal'),
+    ('Uttarakhand', 'Pithoragarh'),
+    ('Uttarakhand', 'Rudraprayag'),
+    ('Uttarakhand', 'Tehri Garhwal'),
+    ('Uttarakhand', 'Udham Singh Nagar'),
+    ('Uttarakhand', 'Uttarkashi'),
+    ('West Bengal', 'Alipurduar'),
+    ('West Bengal', 'Bankura'),
+    ('West Bengal', 'Birbhum'),
+    ('West Bengal', 'Cooch Behar'),
+    ('West Bengal', 'Dakshin Dinajpur'),
+    ('West Bengal', 'Darjeeling'),
+    ('West Bengal', 'Hooghly'),
+    ('West Bengal', 'Howrah'),
+    ('West Bengal', 'Jalpaiguri'),
+    ('West Bengal', 'Jhargram'),
+    ('West Bengal', 'Kalimpong'),
+    ('West Bengal', 'Kolkata'),
+    ('West Bengal', 'Malda'),
+    ('West Bengal', 'Murshidabad'),
+    ('West Bengal', 'Nadia'),
+    ('West Bengal', 'North 24 Parganas'),
+    ('West Bengal', 'Paschim Bardhaman'),
+    ('West Bengal', 'Paschim Medinipur'),
+    ('West Bengal', 'Purba Bardhaman'),
+    ('West Bengal', 'Purba Medinipur'),
+    ('West Bengal', 'Purulia'),
+    ('West Bengal', 'South 24 Parganas'),
+    ('West Bengal', 'Uttar Dinajpur')
+) AS d(state_name, name)
+JOIN public.states s ON s.name = d.state_name;
+
+UPDATE public.districts d
+SET aliases = a.aliases
+FROM (VALUES
+    ('Andhra Pradesh', 'Anantapur', ARRAY['Anantapuramu']),
+    ('Andhra Pradesh', 'Sri Potti Sriramulu Nellore', ARRAY['Nellore']),
+    ('Andhra Pradesh', 'Visakhapatnam', ARRAY['Vizag', 'Vishakhapatnam']),
+    ('Andhra Pradesh', 'YSR Kadapa', ARRAY['Kadapa', 'Cuddapah']),
+    ('Assam', 'Kamrup Metropolitan', ARRAY['Guwahati']),
+    ('Assam', 'Sribhumi', ARRAY['Karimganj']),
+    ('Bihar', 'East Champaran', ARRAY['Purbi Champaran', 'Motihari']),
+    ('Bihar', 'West Champaran', ARRAY['Pashchim Champaran']),
+    ('Delhi', 'New Delhi', ARRAY['Delhi']),
+    ('Gujarat', 'Dang', ARRAY['The Dangs']),
+    ('Gujarat', 'Kutch', ARRAY['Kachchh']),
+    ('Gujarat', 'Mehsana', ARRAY['Mahesana']),
+    ('Gujarat', 'Panchmahal', ARRAY['Panchmahals']),
+    ('Gujarat', 'Vadodara', ARRAY['Baroda']),
+    ('Haryana', 'Gurugram', ARRAY['Gurgaon']),
+    ('Haryana', 'Nuh', ARRAY['Mewat']),
+    ('Jharkhand', 'East Singhbhum', ARRAY['Purbi Singhbhum', 'Jamshedpur']),
+    ('Jharkhand', 'West Singhbhum', ARRAY['Pashchimi Singhbhum']),
+    ('Karnataka', 'Ballari', ARRAY['Bellary']),
+    ('Karnataka', 'Belagavi', ARRAY['Belgaum']),
+    ('Karnataka', 'Bengaluru Rural', ARRAY['Bangalore Rural']),
+    ('Karnataka', 'Bengaluru Urban', ARRAY['Bengaluru', 'Bangalore', 'Bangalore Urban']),
+    ('Karnataka', 'Chikkamagaluru', ARRAY['Chikmagalur']),
+    ('Karnataka', 'Kalaburagi', ARRAY['Gulbarga']),
+    ('Karnataka', 'Mysuru', ARRAY['Mysore']),
+    ('Karnataka', 'Shivamogga', ARRAY['Shimoga']),
+    ('Karnataka', 'Tumakuru', ARRAY['Tumkur']),
+    ('Karnataka', 'Vijayapura', ARRAY['Bijapur']),
+    ('Kerala', 'Alappuzha', ARRAY['Alleppey']),
+    ('Kerala', 'Ernakulam', ARRAY['Kochi', 'Cochin']),
+    ('Kerala', 'Kannur', ARRAY['Cannanore']),
+    ('Kerala', 'Kollam', ARRAY['Quilon']),
+    ('Kerala', 'Kozhikode', ARRAY['Calicut']),
+    ('Kerala', 'Palakkad', ARRAY['Palghat']),
+    ('Kerala', 'Thiruvananthapuram', ARRAY['Trivandrum']),
+    ('Kerala', 'Thrissur', ARRAY['Trichur']),
+    ('Madhya Pradesh', 'Narmadapuram', ARRAY['Hoshangabad']),
+    ('Maharashtra', 'Ahilyanagar', ARRAY['Ahmednagar']),
+    ('Maharashtra', 'Chhatrapati Sambhajinagar', ARRAY['Aurangabad']),
+    ('Maharashtra', 'Dharashiv', ARRAY['Osmanabad']),
+    ('Maharashtra', 'Mumbai City', ARRAY['Mumbai', 'Bombay']),
+    ('Maharashtra', 'Pune', ARRAY['Poona']),
+    ('Mizoram', 'Siaha', ARRAY['Saiha']),
+    ('Odisha', 'Balasore', ARRAY['Baleswar']),
+    ('Odisha', 'Kendujhar', ARRAY['Keonjhar']),
+    ('Odisha', 'Khordha', ARRAY['Bhubaneswar']),
+    ('Puducherry', 'Puducherry', ARRAY['Pondicherry']),
+    ('Punjab', 'Sahibzada Ajit Singh Nagar', ARRAY['Mohali']),
+    ('Punjab', 'Shaheed Bhagat Singh Nagar', ARRAY['Nawanshahr']),
+    ('Rajasthan', 'Chittorgarh', ARRAY['Chittaurgarh']),
+    ('Rajasthan', 'Jalore', ARRAY['Jalor']),
+    ('Rajasthan', 'Sri Ganganagar', ARRAY['Ganganagar']),
+    ('Tamil Nadu', 'Chennai', ARRAY['Madras']),
+    ('Tamil Nadu', 'Kanchipuram', ARRAY['Kancheepuram']),
+    ('Tamil Nadu', 'Nilgiris', ARRAY['The Nilgiris', 'Ooty']),
+    ('Tamil Nadu', 'Thoothukudi', ARRAY['Tuticorin']),
+    ('Tamil Nadu', 'Tiruchirappalli', ARRAY['Trichy']),
+    ('Tamil Nadu', 'Viluppuram', ARRAY['Villupuram']),
+    ('Telangana', 'Rangareddy', ARRAY['Ranga Reddy']),
+    ('Uttar Pradesh', 'Ayodhya', ARRAY['Faizabad']),
+    ('Uttar Pradesh', 'Gautam Buddha Nagar', ARRAY['Noida', 'Greater Noida']),
+    ('Uttar Pradesh', 'Kanpur Nagar', ARRAY['Kanpur']),
+    ('Uttar Pradesh', 'Prayagraj', ARRAY['Allahabad']),
+    ('West Bengal', 'Kolkata', ARRAY['Calcutta'])
+) AS a(state_name, name, aliases)
+JOIN public.states s ON s.name = a.state_name
+WHERE d.state_id = s.id AND d.name = a.name;
+
+-- Link locations to the catalogue, the text columns stay as display names
+ALTER TABLE public.profiles ADD COLUMN district_id INTEGER REFERENCES public.districts(id);
+ALTER TABLE public.requests ADD COLUMN district_id INTEGER REFERENCES public.districts(id);
+ALTER TABLE public.recurring_requests ADD COLUMN district_id INTEGER REFERENCES public.districts(id);
+
+CREATE INDEX idx_profiles_district_id ON public.profiles(district_id);
+CREATE INDEX idx_requests_district_id ON public.requests(district_id);
+
+-- Keep the district and state names in step with the picked catalogue entry
+CREATE OR REPLACE FUNCTION public.sync_district_names()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.district_id IS NOT NULL THEN
+        SELECT d.name, s.name
+        INTO NEW.district, NEW.state
+        FROM public.districts d
+        JOIN public.states s ON s.id = d.state_id
+        WHERE d.id = NEW.district_id;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER sync_profile_district_names
+BEFORE INSERT OR UPDATE OF district_id ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_district_names();
+
+CREATE TRIGGER sync_request_district_names
+BEFORE INSERT OR UPDATE OF district_id ON public.requests
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_district_names();
+
+CREATE TRIGGER sync_recurring_request_district_names
+BEFORE INSERT OR UPDATE OF district_id ON public.recurring_requests
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_district_names();
+
+-- Lowercase, collapse whitespace and drop a trailing "district" so free text compares cleanly
+CREATE OR REPLACE FUNCTION public.normalise_place_name(place text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT regexp_replace(
+    regexp_replace(lower(trim(coalesce(place, ''))), '\s+', ' ', 'g'),
+    ' (district|dist\.?)$', ''
+  );
+$$;
+
+-- Closest catalogue district for free text, exact names and aliases score 1, otherwise trigram similarity
+-- A matching state breaks ties between districts that share a name, such as Aurangabad or Bilaspur
+CREATE OR REPLACE FUNCTION public.match_district(district_text text, state_text text)
+RETURNS TABLE (district_id integer, score real)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT candidate.id, candidate.score
+  FROM (
+    SELECT
+      d.id,
+      CASE
+        WHEN normalise_place_name(d.name) = normalise_place_name(district_text)
+          OR normalise_place_name(district_text) = ANY (SELECT normalise_place_name(alias) FROM unnest(d.aliases) alias)
+        THEN 1.0
+        ELSE similarity(normalise_place_name(d.name), normalise_place_name(district_text))
+      END::real AS score,
+      similarity(normalise_place_name(s.name), normalise_place_name(state_text)) AS state_score
+    FROM districts d
+    JOIN states s ON s.id = d.state_id
+  ) candidate
+  ORDER BY candidate.score + CASE WHEN candidate.state_score > 0.4 THEN 0.3 ELSE 0 END DESC
+  LIMIT 1;
+$$;
+
+-- Outcome of mapping existing free text to the catalogue, for review of rows left unmatched
+CREATE TABLE public.location_migration_report (
+    id SERIAL PRIMARY KEY,
+    source_table TEXT NOT NULL,
+    source_id UUID NOT NULL,
+    original_district TEXT,
+    original_state TEXT,
+    matched_district_id INTEGER REFERENCES public.districts(id),
+    match_score REAL,
+    applied BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- No policies, the report is only readable with the service role
+ALTER TABLE public.location_migration_report ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO public.location_migration_report (source_table, source_id, original_district, original_state, matched_district_id, match_score, applied)
+SELECT 'profiles', p.id, p.district, p.state, m.district_id, m.score, coalesce(m.score >= 0.5, false)
+FROM public.profiles p
+LEFT JOIN LATERAL public.match_district(p.district, p.state) m ON true;
+
+INSERT INTO public.location_migration_report (source_table, source_id, original_district, original_state, matched_district_id, match_score, applied)
+SELECT 'requests', r.id, r.district, r.state, m.district_id, m.score, coalesce(m.score >= 0.5, false)
+FROM public.requests r
+LEFT JOIN LATERAL public.match_district(r.district, r.state) m ON true;
+
+INSERT INTO public.location_migration_report (source_table, source_id, original_district, original_state, matched_district_id, match_score, applied)
+SELECT 'recurring_requests', rr.id, rr.district, rr.state, m.district_id, m.score, coalesce(m.score >= 0.5, false)
+FROM public.recurring_requests rr
+LEFT JOIN LATERAL public.match_district(rr.district, rr.state) m ON true;
+
+-- Only confident matches are applied, the rest keep their free text and are listed in the report
+UPDATE public.profiles p
+SET district_id = report.matched_district_id
+FROM public.location_migration_report report
+WHERE report.source_table = 'profiles' AND report.source_id = p.id AND report.applied;
+
+UPDATE public.requests r
+SET district_id = report.matched_district_id
+FROM public.location_migration_report report
+WHERE report.source_table = 'requests' AND report.source_id = r.id AND report.applied;
+
+UPDATE public.recurring_requests rr
+SET district_id = report.matched_district_id
+FROM public.location_migration_report report
+WHERE report.source_table = 'recurring_requests' AND report.source_id = rr.id AND report.applied;
+
+DO $$
+DECLARE
+    summary record;
+BEGIN
+    FOR summary IN
+        SELECT source_table, count(*) FILTER (WHERE applied) AS matched, count(*) FILTER (WHERE NOT applied) AS unmatched
+        FROM public.location_migration_report
+        GROUP BY source_table
+    LOOP
+        RAISE NOTICE '%: % matched, % left for review', summary.source_table, summary.matched, summary.unmatched;
+    END LOOP;
+END;
+$$;
+
+-- New sign-ups pick a catalogue district, the names are filled in by sync_district_names()
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO public.profiles (user_id, full_name, phone, district_id, district, state, blood_group)
+    VALUES (
+        NEW.id,
+        COALESCE(NEW.raw_user_meta_data->>'full_name', ''),
+        COALESCE(NEW.raw_user_meta_data->>'phone', ''),
+        NULLIF(NEW.raw_user_meta_data->>'district_id', '')::integer,
+        COALESCE(NEW.raw_user_meta_data->>'district', ''),
+        COALESCE(NEW.raw_user_meta_data->>'state', ''),
+        COALESCE(NEW.raw_user_meta_data->>'blood_group', 'O+')::blood_group
+    );
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Match on district IDs, rows not yet linked to the catalogue fall back to comparing names
+DROP POLICY IF EXISTS "Users can view requests in their district with compatible blood group" ON public.requests;
+DROP POLICY IF EXISTS "Users can view claims for requests they can see" ON public.claims;
+DROP FUNCTION IF EXISTS public.is_within_reach(uuid, text, double precision, double precision);
+
+CREATE OR REPLACE FUNCTION public.is_within_reach(donor_user_id uuid, request_district_id integer, request_district text, request_latitude double precision, request_longitude double precision)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.user_id = donor_user_id
+      AND (
+        p.district_id = request_district_id
+        OR (
+          (p.district_id IS NULL OR request_district_id IS NULL)
+          AND normalise_place_name(p.district) = normalise_place_name(request_district)
+        )
+        OR (
+          p.latitude IS NOT NULL AND request_latitude IS NOT NULL
+          AND distance_km(p.latitude, p.longitude, request_latitude, request_longitude) <= p.match_radius_km
+        )
+      )
+  );
+$$;
+
+CREATE POLICY "Users can view requests in their district with compatible blood group" ON public.requests
+    FOR SELECT USING (
+        (status = 'open' AND expires_at > now()
+         AND public.is_within_reach(auth.uid(), district_id, district, latitude, longitude)
+         AND public.is_compatible_donor(auth.uid(), blood_group, component)
+         AND requester_id != auth.uid())
+        OR requester_id = auth.uid()
+    );
+
+CREATE POLICY "Users can view claims for requests they can see" ON public.claims
+    FOR SELECT USING (
+        request_id IN (
+            SELECT id FROM public.requests
+            WHERE (public.is_within_reach(auth.uid(), district_id, district, latitude, longitude)
+                  AND public.is_compatible_donor(auth.uid(), blood_group, component))
+               OR requester_id = auth.uid()
+        )
+    );
+
+CREATE OR REPLACE FUNCTION public.get_safe_requests()
+RETURNS TABLE (
+  id uuid,
+  blood_group blood_group,
+  component blood_component,
+  requester_id uuid,
+  requester_name text,
+  requester_phone text,
+  district text,
+  state text,
+  location_description text,
+  message text,
+  status request_status,
+  expires_at timestamp with time zone,
+  created_at timestamp with time zone,
+  updated_at timestamp with time zone
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    r.id,
+    r.blood_group,
+    r.component,
+    r.requester_id,
+    r.requester_name,
+    -- Only return phone number if the user owns the request OR has an approved contact request
+    CASE
+      WHEN r.requester_id = auth.uid() THEN r.requester_phone
+      WHEN EXISTS (
+        SELECT 1 FROM contact_requests cr
+        WHERE cr.request_id = r.id
+        AND cr.donor_id = auth.uid()
+        AND cr.status = 'approved'
+      ) THEN r.requester_phone
+      ELSE NULL
+    END as requester_phone,
+    r.district,
+    r.state,
+    r.location_description,
+    r.message,
+    r.status,
+    r.expires_at,
+    r.created_at,
+    r.updated_at
+  FROM requests r
+  WHERE r.status = 'open'
+    AND r.expires_at > now()
+    AND (
+      -- Show requests within the user's reach for a component the user can donate
+      (is_within_reach(auth.uid(), r.district_id, r.district, r.latitude, r.longitude)
+       AND is_compatible_donor(auth.uid(), r.blood_group, r.component)
+       AND r.requester_id <> auth.uid())
+      -- Always show user's own requests
+      OR r.requester_id = auth.uid()
+    )
+  ORDER BY r.created_at DESC;
+$$;
+
+-- Recurring occurrences carry the catalogue district of their template
+CREATE OR REPLACE FUNCTION public.materialise_recurring_requests()
+RETURNS SETOF uuid AS $$
+DECLARE
+    template public.recurring_requests%ROWTYPE;
+    new_request_id uuid;
+BEGIN
+    FOR template IN
+        SELECT * FROM public.recurring_requests
+        WHERE status = 'active'
+          AND next_needed_at <= now() + interval '3 days'
+        FOR UPDATE SKIP LOCKED
+    LOOP
+        -- Occurrences already in the past are skipped rather than posted late
+        IF template.next_needed_at > now() THEN
+            INSERT INTO public.requests (
+                requester_id, blood_group, component, units_needed,
+                requester_name, requester_phone, district_id, district, state,
+                latitude, longitude, location_description, message,
+                urgency, needed_by, recurring_request_id
+            ) VALUES (
+                template.requester_id, template.blood_group, template.component, template.units_needed,
+                template.requester_name, template.requester_phone, template.district_id, template.district, template.state,
+                template.latitude, template.longitude, template.location_description, template.message,
+                'scheduled', template.next_needed_at, template.id
+            )
+            RETURNING id INTO new_request_id;
+
+            RETURN NEXT new_request_id;
+        END IF;
+
+        UPDATE public.recurring_requests
+        SET next_needed_at = next_needed_at + make_interval(days => cadence_days),
+            last_materialised_at = now()
+        WHERE id = template.id;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
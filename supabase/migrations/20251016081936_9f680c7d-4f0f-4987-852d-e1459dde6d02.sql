@@ -0,0 +1,78 @@
+-- Directory of hospitals and blood banks that requests can point at instead of free text
+CREATE TABLE public.hospitals (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    name TEXT NOT NULL,
+    address TEXT NOT NULL,
+    district_id INTEGER NOT NULL REFERENCES public.districts(id),
+    latitude DOUBLE PRECISION,
+    longitude DOUBLE PRECISION,
+    blood_bank_phone TEXT,
+    -- Set once the listing has been checked against official records
+    is_verified BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    CONSTRAINT hospitals_coordinates_check
+      CHECK ((latitude IS NULL) = (longitude IS NULL) AND latitude BETWEEN -90 AND 90 AND longitude BETWEEN -180 AND 180),
+    UNIQUE (district_id, name)
+);
+
+CREATE INDEX idx_hospitals_district_id ON public.hospitals(district_id);
+
+ALTER TABLE public.hospitals ENABLE ROW LEVEL SECURITY;
+
+-- Listings are maintained with the service role, everyone can browse them
+CREATE POLICY "Anyone can view hospitals" ON public.hospitals
+    FOR SELECT USING (true);
+
+CREATE TRIGGER update_hospitals_updated_at
+BEFORE UPDATE ON public.hospitals
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Requests keep location_description for ward and bed details, or as the whole location when the hospital is not listed
+ALTER TABLE public.requests
+ADD COLUMN hospital_id UUID REFERENCES public.hospitals(id) ON DELETE SET NULL;
+
+ALTER TABLE public.recurring_requests
+ADD COLUMN hospital_id UUID REFERENCES public.hospitals(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_requests_hospital_id ON public.requests(hospital_id);
+
+-- Recurring occurrences carry the hospital of their template
+CREATE OR REPLACE FUNCTION public.materialise_recurring_requests()
+RETURNS SETOF uuid AS $$
+DECLARE
+    template public.recurring_requests%ROWTYPE;
+    new_request_id uuid;
+BEGIN
+    FOR template IN
+        SELECT * FROM public.recurring_requests
+        WHERE status = 'active'
+          AND next_needed_at <= now() + interval '3 days'
+        FOR UPDATE SKIP LOCKED
+    LOOP
+        -- Occurrences already in the past are skipped rather than posted late
+        IF template.next_needed_at > now() THEN
+            INSERT INTO public.requests (
+                requester_id, blood_group, component, units_needed,
+                requester_name, requester_phone, district_id, district, state,
+                latitude, longitude, hospital_id, location_description, message,
+                urgency, needed_by, recurring_request_id
+            ) VALUES (
+                template.requester_id, template.blood_group, template.component, template.units_needed,
+                template.requester_name, template.requester_phone, template.district_id, template.district, template.state,
+                template.latitude, template.longitude, template.hospital_id, template.location_description, template.message,
+                'scheduled', template.next_needed_at, template.id
+            )
+            RETURNING id INTO new_request_id;
+
+            RETURN NEXT new_request_id;
+        END IF;
+
+        UPDATE public.recurring_requests
+        SET next_needed_at = next_needed_at + make_interval(days => cadence_days),
+            last_materialised_at = now()
+        WHERE id = template.id;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
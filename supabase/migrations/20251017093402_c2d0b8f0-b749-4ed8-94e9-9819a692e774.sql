@@ -0,0 +1,79 @@
+-- The map view plots requests from get_safe_requests, so it needs the fields shown on a request card and the coordinates.
+-- The return type changes, so the function has to be dropped first
+DROP FUNCTION IF EXISTS public.get_safe_requests();
+
+CREATE OR REPLACE FUNCTION public.get_safe_requests()
+RETURNS TABLE (
+  id uuid,
+  blood_group blood_group,
+  component blood_component,
+  units_needed integer,
+  urgency request_urgency,
+  needed_by timestamp with time zone,
+  requester_id uuid,
+  requester_name text,
+  requester_phone text,
+  district_id integer,
+  district text,
+  state text,
+  latitude double precision,
+  longitude double precision,
+  hospital_id uuid,
+  location_description text,
+  message text,
+  recurring_request_id uuid,
+  status request_status,
+  expires_at timestamp with time zone,
+  created_at timestamp with time zone,
+  updated_at timestamp with time zone
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    r.id,
+    r.blood_group,
+    r.component,
+    r.units_needed,
+    r.urgency,
+    r.needed_by,
+    r.requester_id,
+    r.requester_name,
+    -- Only return phone number if the user owns the request OR has an approved contact request
+    CASE
+      WHEN r.requester_id = auth.uid() THEN r.requester_phone
+      WHEN EXISTS (
+        SELECT 1 FROM contact_requests cr
+        WHERE cr.request_id = r.id
+        AND cr.donor_id = auth.uid()
+        AND cr.status = 'approved'
+      ) THEN r.requester_phone
+      ELSE NULL
+    END as requester_phone,
+    r.district_id,
+    r.district,
+    r.state,
+    r.latitude,
+    r.longitude,
+    r.hospital_id,
+    r.location_description,
+    r.message,
+    r.recurring_request_id,
+    r.status,
+    r.expires_at,
+    r.created_at,
+    r.updated_at
+  FROM requests r
+  WHERE r.status = 'open'
+    AND r.expires_at > now()
+    AND (
+      -- Show requests within the user's reach for a component the user can donate
+      (is_within_reach(auth.uid(), r.district_id, r.district, r.latitude, r.longitude)
+       AND is_compatible_donor(auth.uid(), r.blood_group, r.component)
+       AND r.requester_id <> auth.uid())
+      -- Always show user's own requests
+      OR r.requester_id = auth.uid()
+    )
+  ORDER BY r.created_at DESC;
+$$;
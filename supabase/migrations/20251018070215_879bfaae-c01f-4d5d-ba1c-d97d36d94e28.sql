@@ -0,0 +1,105 @@
+-- Favourites become watchlist filters: a blood group (or any) in a catalogue district, optionally with pushes
+ALTER TABLE public.favourites
+ADD COLUMN district_id INTEGER REFERENCES public.districts(id),
+ADD COLUMN notify BOOLEAN NOT NULL DEFAULT false;
+
+-- Rows saved before the district catalogue are matched the same way as profiles and requests
+INSERT INTO public.location_migration_report (source_table, source_id, original_district, original_state, matched_district_id, match_score, applied)
+SELECT 'favourites', f.id, f.district, NULL, m.district_id, m.score, coalesce(m.score >= 0.5, false)
+FROM public.favourites f
+LEFT JOIN LATERAL public.match_district(f.district, NULL) m ON true
+WHERE f.district IS NOT NULL;
+
+UPDATE public.favourites f
+SET district_id = report.matched_district_id
+FROM public.location_migration_report report
+WHERE report.source_table = 'favourites' AND report.source_id = f.id AND report.applied;
+
+-- A blood group of NULL means any group, so NULLs have to count as equal for uniqueness
+ALTER TABLE public.favourites DROP CONSTRAINT IF EXISTS favourites_user_id_blood_group_district_key;
+CREATE UNIQUE INDEX favourites_user_district_blood_group_key
+ON public.favourites (user_id, district_id, blood_group) NULLS NOT DISTINCT;
+
+CREATE INDEX idx_favourites_notify_district ON public.favourites(district_id) WHERE notify;
+
+-- The watchlist feed reaches beyond the user's own district, so keep it to a handful of filters
+CREATE OR REPLACE FUNCTION public.limit_favourites()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF (SELECT count(*) FROM public.favourites WHERE user_id = NEW.user_id) >= 10 THEN
+        RAISE EXCEPTION 'You can watch at most 10 blood group and district combinations';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER limit_favourites_per_user
+BEFORE INSERT ON public.favourites
+FOR EACH ROW
+EXECUTE FUNCTION public.limit_favourites();
+
+-- Open requests matching any of the caller's watch filters. Requests RLS only covers the caller's own reach,
+-- so this runs as definer and leaves out the requester's phone and id
+CREATE OR REPLACE FUNCTION public.get_watchlist_requests()
+RETURNS TABLE (
+  id uuid,
+  blood_group blood_group,
+  component blood_component,
+  units_needed integer,
+  urgency request_urgency,
+  needed_by timestamp with time zone,
+  requester_name text,
+  district_id integer,
+  district text,
+  state text,
+  latitude double precision,
+  longitude double precision,
+  hospital_id uuid,
+  location_description text,
+  message text,
+  expires_at timestamp with time zone,
+  created_at timestamp with time zone
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    r.id,
+    r.blood_group,
+    r.component,
+    r.units_needed,
+    r.urgency,
+    r.needed_by,
+    r.requester_name,
+    r.district_id,
+    r.district,
+    r.state,
+    r.latitude,
+    r.longitude,
+    r.hospital_id,
+    r.location_description,
+    r.message,
+    r.expires_at,
+    r.created_at
+  FROM requests r
+  WHERE r.status = 'open'
+    AND r.expires_at > now()
+    AND r.requester_id <> auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM favourites f
+      WHERE f.user_id = auth.uid()
+        AND (f.blood_group IS NULL OR f.blood_group = r.blood_group)
+        AND (
+          f.district_id = r.district_id
+          OR (
+            (f.district_id IS NULL OR r.district_id IS NULL)
+            AND f.district IS NOT NULL
+            AND normalise_place_name(f.district) = normalise_place_name(r.district)
+          )
+        )
+    )
+  ORDER BY r.created_at DESC;
+$$;
@@ -0,0 +1,111 @@
+-- Contact requests can only be sent for one of the requester's own open requests
+DROP POLICY IF EXISTS "Users can create contact requests as requesters" ON public.contact_requests;
+
+CREATE POLICY "Users can create contact requests as requesters"
+ON public.contact_requests
+FOR INSERT
+WITH CHECK (
+  auth.uid() = requester_id
+  AND EXISTS (
+    SELECT 1 FROM public.requests r
+    WHERE r.id = request_id
+      AND r.requester_id = auth.uid()
+      AND r.status = 'open'
+  )
+);
+
+-- A donor is only asked once per request, earlier duplicates give way to the latest ask
+DELETE FROM public.contact_requests older
+USING public.contact_requests newer
+WHERE older.request_id = newer.request_id
+  AND older.donor_id = newer.donor_id
+  AND older.created_at < newer.created_at;
+
+CREATE UNIQUE INDEX contact_requests_request_donor_key ON public.contact_requests (request_id, donor_id);
+CREATE INDEX idx_contact_requests_donor_id ON public.contact_requests (donor_id, created_at DESC);
+CREATE INDEX idx_contact_requests_requester_id ON public.contact_requests (requester_id, created_at DESC);
+
+-- Donors who could fulfil one of the caller's requests, using the same reach and eligibility rules as notifications.
+-- Profiles RLS only exposes the caller's own row, so this runs as definer and never returns phone numbers
+CREATE OR REPLACE FUNCTION public.search_request_donors(target_request_id uuid)
+RETURNS TABLE (
+  user_id uuid,
+  full_name text,
+  blood_group blood_group,
+  district text,
+  distance_km double precision,
+  is_confirmed boolean,
+  contact_status text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    p.user_id,
+    p.full_name,
+    p.blood_group,
+    p.district,
+    CASE
+      WHEN p.latitude IS NOT NULL AND r.latitude IS NOT NULL
+      THEN distance_km(p.latitude, p.longitude, r.latitude, r.longitude)
+    END as distance_km,
+    p.is_confirmed,
+    cr.status as contact_status
+  FROM requests r
+  JOIN profiles p ON p.user_id <> r.requester_id
+  LEFT JOIN contact_requests cr ON cr.request_id = r.id AND cr.donor_id = p.user_id
+  WHERE r.id = target_request_id
+    AND r.requester_id = auth.uid()
+    AND r.status = 'open'
+    AND is_within_reach(p.user_id, r.district_id, r.district, r.latitude, r.longitude)
+    AND is_compatible_donor(p.user_id, r.blood_group, r.component)
+    AND (p.eligible_again_on IS NULL OR p.eligible_again_on <= current_date)
+    AND (p.is_available OR (p.unavailable_until IS NOT NULL AND p.unavailable_until <= now()))
+  ORDER BY p.blood_group = r.blood_group DESC, distance_km NULLS LAST, p.full_name
+  LIMIT 50;
+$$;
+
+-- The requester's sent contact requests. The donor's phone is only included once they approve
+CREATE OR REPLACE FUNCTION public.get_sent_contact_requests()
+RETURNS TABLE (
+  id uuid,
+  request_id uuid,
+  request_blood_group blood_group,
+  request_district text,
+  donor_id uuid,
+  donor_name text,
+  donor_blood_group blood_group,
+  donor_phone text,
+  status text,
+  message text,
+  created_at timestamp with time zone,
+  expires_at timestamp with time zone,
+  updated_at timestamp with time zone
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    cr.id,
+    cr.request_id,
+    r.blood_group as request_blood_group,
+    r.district as request_district,
+    cr.donor_id,
+    p.full_name as donor_name,
+    p.blood_group as donor_blood_group,
+    CASE WHEN cr.status = 'approved' THEN p.phone END as donor_phone,
+    cr.status,
+    cr.message,
+    cr.created_at,
+    cr.expires_at,
+    cr.updated_at
+  FROM contact_requests cr
+  JOIN requests r ON r.id = cr.request_id
+  LEFT JOIN profiles p ON p.user_id = cr.donor_id
+  WHERE cr.requester_id = auth.uid()
+  ORDER BY cr.created_at DESC;
+$$;
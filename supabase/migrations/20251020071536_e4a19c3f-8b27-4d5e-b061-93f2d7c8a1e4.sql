@@ -0,0 +1,124 @@
+-- Track when donors respond to contact requests and when each side last read them
+ALTER TABLE public.contact_requests ADD COLUMN responded_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.contact_requests ADD COLUMN donor_read_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.contact_requests ADD COLUMN requester_read_at TIMESTAMP WITH TIME ZONE;
+
+-- Requests sent before read tracking count as read, so nobody starts with a wall of unread badges
+UPDATE public.contact_requests
+SET responded_at = CASE WHEN status <> 'pending' THEN updated_at END,
+    donor_read_at = now(),
+    requester_read_at = now();
+
+-- Stamp the response time when a donor first approves or declines
+CREATE OR REPLACE FUNCTION public.record_contact_request_response()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF OLD.status = 'pending' AND NEW.status IN ('approved', 'declined') THEN
+        NEW.responded_at := now();
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER record_contact_request_response
+BEFORE UPDATE OF status ON public.contact_requests
+FOR EACH ROW
+EXECUTE FUNCTION public.record_contact_request_response();
+
+-- Donors have unread requests they have not opened yet, requesters have unread responses
+CREATE OR REPLACE FUNCTION public.get_unread_contact_request_counts()
+RETURNS TABLE (
+  received integer,
+  sent integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    count(*) FILTER (
+      WHERE cr.donor_id = auth.uid() AND cr.donor_read_at IS NULL
+    )::integer as received,
+    count(*) FILTER (
+      WHERE cr.requester_id = auth.uid()
+        AND cr.responded_at IS NOT NULL
+        AND (cr.requester_read_at IS NULL OR cr.requester_read_at < cr.responded_at)
+    )::integer as sent
+  FROM contact_requests cr
+  WHERE cr.donor_id = auth.uid() OR cr.requester_id = auth.uid();
+$$;
+
+-- Requesters cannot update contact requests directly, so marking either folder read goes through here
+CREATE OR REPLACE FUNCTION public.mark_contact_requests_read(folder text)
+RETURNS void AS $$
+BEGIN
+    IF folder = 'received' THEN
+        UPDATE public.contact_requests
+        SET donor_read_at = now()
+        WHERE donor_id = auth.uid() AND donor_read_at IS NULL;
+    ELSIF folder = 'sent' THEN
+        UPDATE public.contact_requests
+        SET requester_read_at = now()
+        WHERE requester_id = auth.uid()
+          AND responded_at IS NOT NULL
+          AND (requester_read_at IS NULL OR requester_read_at < responded_at);
+    ELSE
+        RAISE EXCEPTION 'Unknown folder %', folder;
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The outbox highlights answers the requester has not seen yet
+DROP FUNCTION IF EXISTS public.get_sent_contact_requests();
+
+CREATE OR REPLACE FUNCTION public.get_sent_contact_requests()
+RETURNS TABLE (
+  id uuid,
+  request_id uuid,
+  request_blood_group blood_group,
+  request_district text,
+  donor_id uuid,
+  donor_name text,
+  donor_blood_group blood_group,
+  donor_phone text,
+  status text,
+  message text,
+  created_at timestamp with time zone,
+  expires_at timestamp with time zone,
+  updated_at timestamp with time zone,
+  responded_at timestamp with time zone,
+  is_unread boolean
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    cr.id,
+    cr.request_id,
+    r.blood_group as request_blood_group,
+    r.district as request_district,
+    cr.donor_id,
+    p.full_name as donor_name,
+    p.blood_group as donor_blood_group,
+    CASE WHEN cr.status = 'approved' THEN p.phone END as donor_phone,
+    cr.status,
+    cr.message,
+    cr.created_at,
+    cr.expires_at,
+    cr.updated_at,
+    cr.responded_at,
+    cr.responded_at IS NOT NULL
+      AND (cr.requester_read_at IS NULL OR cr.requester_read_at < cr.responded_at) as is_unread
+  FROM contact_requests cr
+  JOIN requests r ON r.id = cr.request_id
+  LEFT JOIN profiles p ON p.user_id = cr.donor_id
+  WHERE cr.requester_id = auth.uid()
+  ORDER BY cr.created_at DESC;
+$$;
+
+-- Broadcast contact request changes so inboxes update live
+ALTER PUBLICATION supabase_realtime ADD TABLE public.contact_requests;
@@ -0,0 +1,49 @@
+-- Pending contact requests lapse after their own expiry or once the blood request they were sent for closes
+CREATE OR REPLACE FUNCTION public.expire_contact_requests()
+RETURNS void AS $$
+BEGIN
+    UPDATE public.contact_requests cr
+    SET status = 'expired'
+    FROM public.requests r
+    WHERE r.id = cr.request_id
+      AND cr.status = 'pending'
+      AND (cr.expires_at <= now() OR r.status <> 'open' OR r.expires_at <= now());
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the scheduled job (service role) may sweep contact requests
+REVOKE EXECUTE ON FUNCTION public.expire_contact_requests() FROM PUBLIC, anon, authenticated;
+
+CREATE INDEX idx_contact_requests_pending_expiry ON public.contact_requests(expires_at) WHERE status = 'pending';
+
+-- Donors can only answer requests that are still pending, unexpired and for an open blood request,
+-- so a stale row the sweep has not reached yet cannot be approved. Runs as definer because the donor
+-- may no longer be able to see the blood request under requests RLS
+CREATE OR REPLACE FUNCTION public.record_contact_request_response()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.status IN ('approved', 'declined') AND NEW.status IS DISTINCT FROM OLD.status THEN
+        IF OLD.status <> 'pending' THEN
+            RAISE EXCEPTION 'This contact request has already been answered or has expired';
+        END IF;
+
+        IF OLD.expires_at <= now() OR NOT EXISTS (
+            SELECT 1 FROM public.requests r
+            WHERE r.id = OLD.request_id AND r.status = 'open' AND r.expires_at > now()
+        ) THEN
+            RAISE EXCEPTION 'This contact request has expired';
+        END IF;
+
+        NEW.responded_at := now();
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Sweep every 15 minutes so stale requests drop out of donor inboxes promptly
+SELECT cron.schedule(
+  'expire-contact-requests',
+  '*/15 * * * *',
+  $$ SELECT public.expire_contact_requests(); $$
+);
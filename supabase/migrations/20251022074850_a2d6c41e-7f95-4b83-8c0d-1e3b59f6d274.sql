@@ -0,0 +1,62 @@
+-- Track the "expiring soon" push so requesters are warned once per expiry
+ALTER TABLE public.requests ADD COLUMN expiry_warning_sent_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_requests_expiry_warnings ON public.requests(expires_at)
+WHERE status = 'open' AND expiry_warning_sent_at IS NULL;
+
+-- Return the requests that were expired so the scheduled job can tell their requesters
+DROP FUNCTION IF EXISTS public.expire_old_requests();
+
+CREATE OR REPLACE FUNCTION public.expire_old_requests()
+RETURNS SETOF uuid AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE public.requests
+    SET status = 'expired'
+    WHERE status = 'open' AND expires_at <= now()
+    RETURNING id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the scheduled job (service role) may expire requests
+REVOKE EXECUTE ON FUNCTION public.expire_old_requests() FROM PUBLIC, anon, authenticated;
+
+-- Give an open or expired request another 24 hours, reopening it if it had already expired
+CREATE OR REPLACE FUNCTION public.extend_request(target_request_id uuid)
+RETURNS timestamp with time zone AS $$
+DECLARE
+    new_expires_at timestamp with time zone;
+BEGIN
+    UPDATE public.requests
+    SET status = 'open',
+        expires_at = greatest(expires_at, now()) + interval '24 hours',
+        expiry_warning_sent_at = NULL
+    WHERE id = target_request_id
+      AND requester_id = auth.uid()
+      AND status IN ('open', 'expired')
+    RETURNING expires_at INTO new_expires_at;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Only your open or expired requests can be extended';
+    END IF;
+
+    RETURN new_expires_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Warn requesters before expiry, then expire and tell them, through the notifications edge function
+-- Requires a 'service_role_key' secret in Vault
+SELECT cron.schedule(
+  'expire-old-requests',
+  '*/15 * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://fbhidjyqctcsdfydyzlc.supabase.co/functions/v1/send-blood-request-notifications',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := jsonb_build_object('type', 'request_expiry')
+  );
+  $$
+);
@@ -0,0 +1,68 @@
+-- Log every extension so requesters and the still-needed reminder can see how a request was kept open
+CREATE TABLE public.request_extensions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  request_id UUID NOT NULL REFERENCES public.requests(id) ON DELETE CASCADE,
+  hours INTEGER NOT NULL CHECK (hours IN (12, 24, 48)),
+  previous_expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  new_expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  notify_donors BOOLEAN NOT NULL DEFAULT false,
+  donors_notified_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.request_extensions ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by extend_request, requesters can read the log of their own requests
+CREATE POLICY "Requesters can view extensions of their requests"
+ON public.request_extensions
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.requests r
+    WHERE r.id = request_id AND r.requester_id = auth.uid()
+  )
+);
+
+CREATE INDEX idx_request_extensions_request_id ON public.request_extensions(request_id, created_at DESC);
+
+-- Extend by 12, 24 or 48 hours, reopening expired requests, as long as the request stays within a week
+-- of being posted. Past that a new request keeps the feed and notifications honest
+DROP FUNCTION IF EXISTS public.extend_request(uuid);
+
+CREATE OR REPLACE FUNCTION public.extend_request(target_request_id uuid, hours integer DEFAULT 24, notify_donors boolean DEFAULT false)
+RETURNS timestamp with time zone AS $$
+DECLARE
+    target public.requests%ROWTYPE;
+    new_expires_at timestamp with time zone;
+BEGIN
+    IF hours NOT IN (12, 24, 48) THEN
+        RAISE EXCEPTION 'Requests can be extended by 12, 24 or 48 hours';
+    END IF;
+
+    SELECT * INTO target
+    FROM public.requests
+    WHERE id = target_request_id AND requester_id = auth.uid()
+    FOR UPDATE;
+
+    IF NOT FOUND OR target.status NOT IN ('open', 'expired') THEN
+        RAISE EXCEPTION 'Only your open or expired requests can be extended';
+    END IF;
+
+    new_expires_at := greatest(target.expires_at, now()) + make_interval(hours => hours);
+
+    IF new_expires_at > target.created_at + interval '7 days' THEN
+        RAISE EXCEPTION 'Requests can stay open for at most 7 days, post a new request if blood is still needed';
+    END IF;
+
+    UPDATE public.requests
+    SET status = 'open',
+        expires_at = new_expires_at,
+        expiry_warning_sent_at = NULL
+    WHERE id = target.id;
+
+    INSERT INTO public.request_extensions (request_id, hours, previous_expires_at, new_expires_at, notify_donors)
+    VALUES (target.id, hours, target.expires_at, new_expires_at, notify_donors);
+
+    RETURN new_expires_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
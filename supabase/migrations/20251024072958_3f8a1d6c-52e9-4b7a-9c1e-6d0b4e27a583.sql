@@ -0,0 +1,113 @@
+-- Requester phone numbers must only reach the owner and donors with an approved contact request.
+-- Row level security cannot hide a single column, so clients lose direct SELECT on requester_phone and read it
+-- through the SECURITY DEFINER functions below, which apply the same rules as get_safe_requests.
+-- New columns on requests have to be added to this grant to be readable by clients.
+REVOKE SELECT ON public.requests FROM anon, authenticated;
+
+GRANT SELECT (
+  id,
+  blood_group,
+  component,
+  units_needed,
+  urgency,
+  needed_by,
+  requester_id,
+  requester_name,
+  district_id,
+  district,
+  state,
+  latitude,
+  longitude,
+  hospital_id,
+  location_description,
+  message,
+  recurring_request_id,
+  status,
+  expires_at,
+  expiry_warning_sent_at,
+  reminder_sent_at,
+  cancellation_reason,
+  cancellation_note,
+  cancelled_at,
+  created_at,
+  updated_at
+) ON public.requests TO anon, authenticated;
+
+-- The signed-in user's own requests with every column, for My Requests, Past Requests and reposting
+CREATE OR REPLACE FUNCTION public.get_my_requests()
+RETURNS SETOF public.requests
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT r.*
+  FROM requests r
+  WHERE r.requester_id = auth.uid()
+  ORDER BY r.created_at DESC;
+$$;
+
+-- Helper and unit totals for the signed-in user's requests, without exposing who claimed other requests
+CREATE OR REPLACE FUNCTION public.get_my_request_progress()
+RETURNS TABLE (
+  request_id uuid,
+  helpers integer,
+  pledged_units integer,
+  confirmed_units integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    c.request_id,
+    count(*)::integer as helpers,
+    coalesce(sum(c.pledged_units), 0)::integer as pledged_units,
+    coalesce(sum(c.confirmed_units), 0)::integer as confirmed_units
+  FROM claims c
+  JOIN requests r ON r.id = c.request_id
+  WHERE r.requester_id = auth.uid()
+    AND r.status = 'open'
+  GROUP BY c.request_id;
+$$;
+
+-- Contact requests sent to the signed-in donor. The requester's phone is only included once the donor approved
+CREATE OR REPLACE FUNCTION public.get_received_contact_requests()
+RETURNS TABLE (
+  id uuid,
+  request_id uuid,
+  request_blood_group blood_group,
+  request_district text,
+  requester_id uuid,
+  requester_name text,
+  requester_phone text,
+  status text,
+  message text,
+  created_at timestamp with time zone,
+  expires_at timestamp with time zone,
+  donor_read_at timestamp with time zone
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    cr.id,
+    cr.request_id,
+    r.blood_group as request_blood_group,
+    r.district as request_district,
+    cr.requester_id,
+    r.requester_name,
+    CASE WHEN cr.status = 'approved' THEN r.requester_phone END as requester_phone,
+    cr.status,
+    cr.message,
+    cr.created_at,
+    cr.expires_at,
+    cr.donor_read_at
+  FROM contact_requests cr
+  JOIN requests r ON r.id = cr.request_id
+  WHERE cr.donor_id = auth.uid()
+  ORDER BY cr.created_at DESC;
+$$;
@@ -0,0 +1,64 @@
+-- Masked numbers that let a requester and a donor who offered to help call each other without seeing the real
+-- phone numbers. Sessions are provisioned and released by the phone-relay edge function through a pluggable provider
+CREATE TABLE public.phone_relays (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  request_id UUID NOT NULL REFERENCES public.requests(id) ON DELETE CASCADE,
+  donor_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  requester_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  provider TEXT NOT NULL,
+  provider_session_id TEXT NOT NULL,
+  -- The number the donor dials to reach the requester, and the one the requester dials to reach the donor
+  donor_proxy_number TEXT NOT NULL,
+  requester_proxy_number TEXT NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  released_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (request_id, donor_id)
+);
+
+ALTER TABLE public.phone_relays ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by the edge function, each party can read the relays they are part of
+CREATE POLICY "Participants can view their phone relays"
+ON public.phone_relays
+FOR SELECT
+USING (auth.uid() = donor_id OR auth.uid() = requester_id);
+
+CREATE INDEX idx_phone_relays_unreleased ON public.phone_relays(expires_at) WHERE released_at IS NULL;
+
+-- A relay stops working as soon as its request is fulfilled, cancelled or expired
+CREATE OR REPLACE FUNCTION public.expire_request_phone_relays()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.status <> 'open' AND OLD.status = 'open' THEN
+        UPDATE public.phone_relays
+        SET expires_at = LEAST(expires_at, now())
+        WHERE request_id = NEW.id
+          AND released_at IS NULL;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER expire_request_phone_relays
+AFTER UPDATE OF status ON public.requests
+FOR EACH ROW
+EXECUTE FUNCTION public.expire_request_phone_relays();
+
+-- Release provider sessions for relays that have expired so their numbers go back to the pool
+-- Requires a 'service_role_key' secret in Vault
+SELECT cron.schedule(
+  'release-phone-relays',
+  '*/15 * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://fbhidjyqctcsdfydyzlc.supabase.co/functions/v1/phone-relay',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := jsonb_build_object('action', 'release_expired')
+  );
+  $$
+);
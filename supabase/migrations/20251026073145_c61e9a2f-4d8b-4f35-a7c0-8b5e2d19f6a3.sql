@@ -0,0 +1,48 @@
+-- Private message threads between a requester and each donor who offered to help, one thread per request and donor
+CREATE TABLE public.messages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  request_id UUID NOT NULL REFERENCES public.requests(id) ON DELETE CASCADE,
+  donor_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  sender_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  body TEXT NOT NULL CHECK (char_length(btrim(body)) BETWEEN 1 AND 2000),
+  notified_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.messages ENABLE ROW LEVEL SECURITY;
+
+-- Only the two parties of a thread can read it
+CREATE POLICY "Thread participants can view messages"
+ON public.messages
+FOR SELECT
+USING (
+  auth.uid() = donor_id
+  OR EXISTS (
+    SELECT 1 FROM public.requests r
+    WHERE r.id = request_id AND r.requester_id = auth.uid()
+  )
+);
+
+-- Either party can post as themselves, as long as the donor still has a claim on the request
+CREATE POLICY "Thread participants can send messages"
+ON public.messages
+FOR INSERT
+WITH CHECK (
+  sender_id = auth.uid()
+  AND notified_at IS NULL
+  AND (
+    auth.uid() = donor_id
+    OR EXISTS (
+      SELECT 1 FROM public.requests r
+      WHERE r.id = request_id AND r.requester_id = auth.uid()
+    )
+  )
+  AND EXISTS (
+    SELECT 1 FROM public.claims c
+    WHERE c.request_id = messages.request_id AND c.donor_id = messages.donor_id
+  )
+);
+
+CREATE INDEX idx_messages_thread ON public.messages(request_id, donor_id, created_at);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.messages;
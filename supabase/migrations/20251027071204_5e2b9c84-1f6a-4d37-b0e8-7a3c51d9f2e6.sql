@@ -0,0 +1,74 @@
+-- A requester confirming a donation also starts the donor's deferral, so it still starts when the request closed
+-- before the donor got round to confirming. Re-confirming does not push the deferral forward
+CREATE OR REPLACE FUNCTION public.confirm_donation(target_claim_id uuid, units integer)
+RETURNS void AS $$
+DECLARE
+    target public.claims%ROWTYPE;
+    donated_component blood_component;
+BEGIN
+    IF units < 0 OR units > 10 THEN
+        RAISE EXCEPTION 'Units must be between 0 and 10';
+    END IF;
+
+    SELECT c.* INTO target
+    FROM public.claims c
+    JOIN public.requests r ON r.id = c.request_id
+    WHERE c.id = target_claim_id
+      AND r.requester_id = auth.uid()
+    FOR UPDATE OF c;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Claim not found';
+    END IF;
+
+    UPDATE public.claims
+    SET confirmed_units = units,
+        requester_confirmed_at = now()
+    WHERE id = target.id;
+
+    IF units > 0
+       AND target.donor_confirmed_at IS NULL
+       AND (target.requester_confirmed_at IS NULL OR COALESCE(target.confirmed_units, 0) = 0) THEN
+        SELECT component INTO donated_component FROM public.requests WHERE id = target.request_id;
+
+        UPDATE public.profiles
+        SET last_donation_date = current_date,
+            last_donation_component = donated_component
+        WHERE user_id = target.donor_id;
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Donor confirms they donated, which also starts their deferral period. A claim can only be confirmed once,
+-- and when the requester already confirmed the donation the deferral keeps counting from that day
+CREATE OR REPLACE FUNCTION public.confirm_my_donation(target_claim_id uuid)
+RETURNS void AS $$
+DECLARE
+    requester_confirmed_at_before timestamp with time zone;
+    requester_units integer;
+    donated_component blood_component;
+BEGIN
+    UPDATE public.claims c
+    SET donor_confirmed_at = now()
+    FROM public.requests r
+    WHERE c.id = target_claim_id
+      AND r.id = c.request_id
+      AND c.donor_id = auth.uid()
+      AND c.donor_confirmed_at IS NULL
+    RETURNING c.requester_confirmed_at, c.confirmed_units, r.component
+    INTO requester_confirmed_at_before, requester_units, donated_component;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Claim not found or already confirmed';
+    END IF;
+
+    UPDATE public.profiles
+    SET last_donation_date = CASE
+            WHEN requester_confirmed_at_before IS NOT NULL AND requester_units > 0
+            THEN requester_confirmed_at_before::date
+            ELSE current_date
+        END,
+        last_donation_component = donated_component
+    WHERE user_id = auth.uid();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
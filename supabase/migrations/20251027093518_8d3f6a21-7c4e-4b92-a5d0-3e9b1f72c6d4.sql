@@ -0,0 +1,29 @@
+-- Donors answer contact requests by changing their status and nothing else. Without a column grant the update
+-- policy let them rewrite expires_at or move an expired row back to pending before approving it
+REVOKE UPDATE ON public.contact_requests FROM anon, authenticated;
+GRANT UPDATE (status, donor_read_at) ON public.contact_requests TO authenticated;
+
+-- Only pending requests can change status, whatever the new status is, so expired and answered rows stay final
+CREATE OR REPLACE FUNCTION public.record_contact_request_response()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.status IS DISTINCT FROM OLD.status THEN
+        IF OLD.status <> 'pending' THEN
+            RAISE EXCEPTION 'This contact request has already been answered or has expired';
+        END IF;
+
+        IF NEW.status IN ('approved', 'declined') THEN
+            IF OLD.expires_at <= now() OR NOT EXISTS (
+                SELECT 1 FROM public.requests r
+                WHERE r.id = OLD.request_id AND r.status = 'open' AND r.expires_at > now()
+            ) THEN
+                RAISE EXCEPTION 'This contact request has expired';
+            END IF;
+
+            NEW.responded_at := now();
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
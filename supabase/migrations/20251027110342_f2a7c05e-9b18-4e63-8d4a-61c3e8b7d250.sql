@@ -0,0 +1,39 @@
+-- Scheduled requests expire when they are needed, which can be up to 30 days after posting, so the 7 day cap
+-- counts from whichever is later of posting and the needed-by date. Mirrored by canExtendBy in the web app
+CREATE OR REPLACE FUNCTION public.extend_request(target_request_id uuid, hours integer DEFAULT 24, notify_donors boolean DEFAULT false)
+RETURNS timestamp with time zone AS $$
+DECLARE
+    target public.requests%ROWTYPE;
+    new_expires_at timestamp with time zone;
+BEGIN
+    IF hours NOT IN (12, 24, 48) THEN
+        RAISE EXCEPTION 'Requests can be extended by 12, 24 or 48 hours';
+    END IF;
+
+    SELECT * INTO target
+    FROM public.requests
+    WHERE id = target_request_id AND requester_id = auth.uid()
+    FOR UPDATE;
+
+    IF NOT FOUND OR target.status NOT IN ('open', 'expired') THEN
+        RAISE EXCEPTION 'Only your open or expired requests can be extended';
+    END IF;
+
+    new_expires_at := greatest(target.expires_at, now()) + make_interval(hours => hours);
+
+    IF new_expires_at > greatest(target.created_at, target.needed_by) + interval '7 days' THEN
+        RAISE EXCEPTION 'Requests can stay open for at most 7 days, post a new request if blood is still needed';
+    END IF;
+
+    UPDATE public.requests
+    SET status = 'open',
+        expires_at = new_expires_at,
+        expiry_warning_sent_at = NULL
+    WHERE id = target.id;
+
+    INSERT INTO public.request_extensions (request_id, hours, previous_expires_at, new_expires_at, notify_donors)
+    VALUES (target.id, hours, target.expires_at, new_expires_at, notify_donors);
+
+    RETURN new_expires_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,12 @@
+-- The web app saves a recurring template before posting its first occurrence. When that post fails the
+-- template is removed again, otherwise materialise_recurring_requests would keep posting a series nobody saw start
+CREATE POLICY "Users can delete their own recurring requests without occurrences"
+ON public.recurring_requests
+FOR DELETE
+USING (
+  auth.uid() = requester_id
+  AND NOT EXISTS (
+    SELECT 1 FROM public.requests r
+    WHERE r.recurring_request_id = recurring_requests.id
+  )
+);
@@ -0,0 +1,10 @@
+-- Push notifications have to reach the same donors and watchers as is_within_reach, which compares rows without a
+-- catalogue district by normalise_place_name(). Storing the normalised name lets the edge function filter on it
+ALTER TABLE public.profiles
+ADD COLUMN normalised_district TEXT GENERATED ALWAYS AS (public.normalise_place_name(district)) STORED;
+
+ALTER TABLE public.favourites
+ADD COLUMN normalised_district TEXT GENERATED ALWAYS AS (public.normalise_place_name(district)) STORED;
+
+CREATE INDEX idx_profiles_normalised_district ON public.profiles(normalised_district) WHERE district_id IS NULL;
+CREATE INDEX idx_favourites_notify_normalised_district ON public.favourites(normalised_district) WHERE notify AND district_id IS NULL;
@@ -0,0 +1,25 @@
+-- Donors write their own claims, so a claim inserted with confirmed_units could close someone else's request.
+-- Units only count once the requester confirmed them through confirm_donation, which is an update
+CREATE OR REPLACE FUNCTION public.fulfil_request_when_covered()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE public.requests r
+    SET status = 'fulfilled'
+    WHERE r.id = NEW.request_id
+      AND r.status IN ('open', 'claimed')
+      AND (
+        SELECT COALESCE(SUM(c.confirmed_units), 0)
+        FROM public.claims c
+        WHERE c.request_id = r.id
+          AND c.requester_confirmed_at IS NOT NULL
+      ) >= r.units_needed;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS fulfil_request_on_confirmed_units ON public.claims;
+
+CREATE TRIGGER fulfil_request_on_confirmed_units
+    AFTER UPDATE OF confirmed_units ON public.claims
+    FOR EACH ROW
+    EXECUTE FUNCTION public.fulfil_request_when_covered();
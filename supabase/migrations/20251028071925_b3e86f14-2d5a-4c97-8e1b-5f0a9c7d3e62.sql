@@ -0,0 +1,100 @@
+-- Unavailable donors and donors in their post-donation deferral period were only hidden from requests by the web
+-- app. Apply the same rule to the feed and to offering help, the app keeps its check to explain the empty feed
+CREATE OR REPLACE FUNCTION public.is_ready_to_donate(donor_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.user_id = donor_user_id
+      -- A snooze ends by itself once unavailable_until has passed
+      AND (p.is_available OR (p.unavailable_until IS NOT NULL AND p.unavailable_until <= now()))
+      AND (p.eligible_again_on IS NULL OR p.eligible_again_on <= current_date)
+  );
+$$;
+
+DROP POLICY IF EXISTS "Users can create claims for open requests" ON public.claims;
+CREATE POLICY "Users can create claims for open requests" ON public.claims
+    FOR INSERT WITH CHECK (auth.uid() = donor_id AND public.is_ready_to_donate(auth.uid()));
+
+CREATE OR REPLACE FUNCTION public.get_safe_requests()
+RETURNS TABLE (
+  id uuid,
+  blood_group blood_group,
+  component blood_component,
+  units_needed integer,
+  urgency request_urgency,
+  needed_by timestamp with time zone,
+  requester_id uuid,
+  requester_name text,
+  requester_phone text,
+  district_id integer,
+  district text,
+  state text,
+  latitude double precision,
+  longitude double precision,
+  hospital_id uuid,
+  location_description text,
+  message text,
+  recurring_request_id uuid,
+  status request_status,
+  expires_at timestamp with time zone,
+  created_at timestamp with time zone,
+  updated_at timestamp with time zone
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    r.id,
+    r.blood_group,
+    r.component,
+    r.units_needed,
+    r.urgency,
+    r.needed_by,
+    r.requester_id,
+    r.requester_name,
+    -- Only return phone number if the user owns the request or has an approved contact request.
+    -- Donors who offered to help reach the requester through a phone relay instead
+    CASE
+      WHEN r.requester_id = auth.uid() THEN r.requester_phone
+      WHEN EXISTS (
+        SELECT 1 FROM contact_requests cr
+        WHERE cr.request_id = r.id
+        AND cr.donor_id = auth.uid()
+        AND cr.status = 'approved'
+      ) THEN r.requester_phone
+      ELSE NULL
+    END as requester_phone,
+    r.district_id,
+    r.district,
+    r.state,
+    r.latitude,
+    r.longitude,
+    r.hospital_id,
+    r.location_description,
+    r.message,
+    r.recurring_request_id,
+    r.status,
+    r.expires_at,
+    r.created_at,
+    r.updated_at
+  FROM requests r
+  WHERE r.status = 'open'
+    AND r.expires_at > now()
+    AND (
+      -- Show requests within the user's reach for a component the user can donate, while they are able to donate
+      (is_within_reach(auth.uid(), r.district_id, r.district, r.latitude, r.longitude)
+       AND is_compatible_donor(auth.uid(), r.blood_group, r.component)
+       AND is_ready_to_donate(auth.uid())
+       AND r.requester_id <> auth.uid())
+      -- Always show user's own requests
+      OR r.requester_id = auth.uid()
+    )
+  ORDER BY r.created_at DESC;
+$$;
+
@@ -0,0 +1,7 @@
+-- Donors create their own claims but only the requester confirms them. Without a column grant a donor could insert
+-- a claim that already carries confirmed units and a requester confirmation, and get a certificate for it
+REVOKE INSERT ON public.claims FROM anon, authenticated;
+GRANT INSERT (request_id, donor_id, pledged_units) ON public.claims TO authenticated;
+
+-- Requests are closed by status so their claims and history stay, clients never delete them
+REVOKE DELETE ON public.requests FROM anon, authenticated;
@@ -0,0 +1,38 @@
+-- Requesters change their requests only through RPCs. A direct update could push expires_at past the lifetime cap
+-- extend_request enforces, or reopen a request that was already closed
+REVOKE UPDATE ON public.requests FROM anon, authenticated;
+DROP POLICY IF EXISTS "Users can update their own requests" ON public.requests;
+
+-- Requester closes a request once they have the blood they needed, even if not every unit was confirmed
+CREATE OR REPLACE FUNCTION public.fulfil_request(target_request_id uuid)
+RETURNS void AS $$
+BEGIN
+    UPDATE public.requests
+    SET status = 'fulfilled'
+    WHERE id = target_request_id
+      AND requester_id = auth.uid()
+      AND status IN ('open', 'claimed');
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Only your open requests can be marked fulfilled';
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Requester cancels a request with a reason, the record_request_cancellation trigger stamps cancelled_at
+CREATE OR REPLACE FUNCTION public.cancel_request(target_request_id uuid, reason request_cancellation_reason, note text DEFAULT NULL)
+RETURNS void AS $$
+BEGIN
+    UPDATE public.requests
+    SET status = 'cancelled',
+        cancellation_reason = reason,
+        cancellation_note = nullif(trim(note), '')
+    WHERE id = target_request_id
+      AND requester_id = auth.uid()
+      AND status IN ('open', 'claimed');
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Only your open requests can be cancelled';
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,57 @@
+-- Only the requester can confirm a donation, donors cannot create claims that are already confirmed.
+-- Run with `supabase test db`
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(4);
+
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', 'requester@example.com', '{"full_name": "Requester", "phone": "+919000000001", "district": "Testpur", "state": "Test State", "blood_group": "A+"}'),
+  ('00000000-0000-0000-0000-0000000000b1', 'donor@example.com', '{"full_name": "Donor", "phone": "+919000000002", "district": "Testpur", "state": "Test State", "blood_group": "O-"}');
+
+INSERT INTO public.requests (id, requester_id, requester_name, requester_phone, blood_group, component, district, state)
+VALUES (
+  '00000000-0000-0000-0000-0000000000c1',
+  '00000000-0000-0000-0000-0000000000a1',
+  'Requester',
+  '+919000000001',
+  'A+',
+  'whole_blood',
+  'Testpur',
+  'Test State'
+);
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000b1", "role": "authenticated"}', true);
+
+SELECT throws_ok(
+  $$INSERT INTO public.claims (request_id, donor_id, pledged_units, confirmed_units, requester_confirmed_at)
+    VALUES ('00000000-0000-0000-0000-0000000000c1', '00000000-0000-0000-0000-0000000000b1', 1, 5, now())$$,
+  '42501',
+  NULL,
+  'A donor cannot insert a claim the requester already confirmed'
+);
+SELECT throws_ok(
+  $$INSERT INTO public.claims (request_id, donor_id, donor_confirmed_at)
+    VALUES ('00000000-0000-0000-0000-0000000000c1', '00000000-0000-0000-0000-0000000000b1', now())$$,
+  '42501',
+  NULL,
+  'A donor cannot insert a claim they already confirmed'
+);
+SELECT lives_ok(
+  $$INSERT INTO public.claims (request_id, donor_id, pledged_units)
+    VALUES ('00000000-0000-0000-0000-0000000000c1', '00000000-0000-0000-0000-0000000000b1', 1)$$,
+  'A donor can still offer to help'
+);
+
+RESET ROLE;
+
+SELECT is(
+  (SELECT status FROM public.requests WHERE id = '00000000-0000-0000-0000-0000000000c1'),
+  'open'::request_status,
+  'Offering to help does not fulfil the request'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,105 @@
+-- Requester phone numbers only reach the owner and donors with an approved contact request.
+-- Run with `supabase test db`
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(9);
+
+-- A requester, a donor who offered to help, a donor who only sees the request and a donor asked for contact.
+-- All share a district so every donor can see the request
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', 'requester@example.com', '{"full_name": "Requester", "phone": "+919000000001", "district": "Testpur", "state": "Test State", "blood_group": "A+"}'),
+  ('00000000-0000-0000-0000-0000000000b1', 'claimant@example.com', '{"full_name": "Claimant", "phone": "+919000000002", "district": "Testpur", "state": "Test State", "blood_group": "O-"}'),
+  ('00000000-0000-0000-0000-0000000000b2', 'viewer@example.com', '{"full_name": "Viewer", "phone": "+919000000003", "district": "Testpur", "state": "Test State", "blood_group": "O-"}'),
+  ('00000000-0000-0000-0000-0000000000b3', 'contacted@example.com', '{"full_name": "Contacted", "phone": "+919000000004", "district": "Testpur", "state": "Test State", "blood_group": "O-"}');
+
+INSERT INTO public.requests (id, requester_id, requester_name, requester_phone, blood_group, component, district, state)
+VALUES (
+  '00000000-0000-0000-0000-0000000000c1',
+  '00000000-0000-0000-0000-0000000000a1',
+  'Requester',
+  '+919000000001',
+  'A+',
+  'whole_blood',
+  'Testpur',
+  'Test State'
+);
+
+INSERT INTO public.claims (request_id, donor_id)
+VALUES ('00000000-0000-0000-0000-0000000000c1', '00000000-0000-0000-0000-0000000000b1');
+
+INSERT INTO public.contact_requests (id, request_id, donor_id, requester_id, message)
+VALUES (
+  '00000000-0000-0000-0000-0000000000d1',
+  '00000000-0000-0000-0000-0000000000c1',
+  '00000000-0000-0000-0000-0000000000b3',
+  '00000000-0000-0000-0000-0000000000a1',
+  'Could you help?'
+);
+
+SET LOCAL ROLE authenticated;
+
+-- The feed
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000b2", "role": "authenticated"}', true);
+SELECT is(
+  (SELECT count(*) FROM public.get_safe_requests() WHERE id = '00000000-0000-0000-0000-0000000000c1'),
+  1::bigint,
+  'A matching donor sees the request in the feed'
+);
+SELECT is(
+  (SELECT requester_phone FROM public.get_safe_requests() WHERE id = '00000000-0000-0000-0000-0000000000c1'),
+  NULL::text,
+  'A donor who has not claimed gets no phone from get_safe_requests'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000b1", "role": "authenticated"}', true);
+SELECT is(
+  (SELECT requester_phone FROM public.get_safe_requests() WHERE id = '00000000-0000-0000-0000-0000000000c1'),
+  NULL::text,
+  'A claimant gets no raw phone from get_safe_requests, they use the phone relay'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000a1", "role": "authenticated"}', true);
+SELECT is(
+  (SELECT requester_phone FROM public.get_safe_requests() WHERE id = '00000000-0000-0000-0000-0000000000c1'),
+  '+919000000001',
+  'The owner sees their own phone'
+);
+
+-- Direct table access
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000b2", "role": "authenticated"}', true);
+SELECT throws_ok(
+  'SELECT requester_phone FROM public.requests',
+  '42501',
+  NULL,
+  'requester_phone cannot be selected from requests directly'
+);
+SELECT lives_ok(
+  'SELECT id, requester_name, district FROM public.requests',
+  'The other request columns stay readable'
+);
+
+-- The donor inbox
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000b3", "role": "authenticated"}', true);
+SELECT is(
+  (SELECT requester_phone FROM public.get_received_contact_requests() WHERE id = '00000000-0000-0000-0000-0000000000d1'),
+  NULL::text,
+  'A pending contact request does not include the phone'
+);
+SELECT is(
+  (SELECT requester_phone FROM public.get_safe_requests() WHERE id = '00000000-0000-0000-0000-0000000000c1'),
+  NULL::text,
+  'A donor with a pending contact request gets no phone from the feed'
+);
+
+UPDATE public.contact_requests SET status = 'approved' WHERE id = '00000000-0000-0000-0000-0000000000d1';
+
+SELECT is(
+  (SELECT requester_phone FROM public.get_received_contact_requests() WHERE id = '00000000-0000-0000-0000-0000000000d1'),
+  '+919000000001',
+  'An approved contact request includes the phone'
+);
+
+SELECT * FROM finish();
+ROLLBACK;